@@ -0,0 +1,131 @@
+import {expect, beforeEach, afterEach, describe, it} from '@jest/globals'
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+const {decryptBundle} = await import('../src/bundle.js')
+
+const key = crypto.randomBytes(32)
+
+function encrypt(
+  content: string,
+  envelope: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
+  const data = Buffer.concat([cipher.update(content, 'utf8'), cipher.final()])
+  return {
+    version: 1,
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+    ...envelope
+  }
+}
+
+describe('bundle', () => {
+  let tmpDir: string
+  let file: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'secrets-to-env-'))
+    file = path.join(tmpDir, 'bundle.enc.json')
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, {recursive: true, force: true})
+  })
+
+  function writeBundle(envelope: Record<string, unknown>): void {
+    fs.writeFileSync(file, JSON.stringify(envelope))
+  }
+
+  it('decrypts with hex and base64 keys', () => {
+    writeBundle(encrypt('KEY=VALUE\n'))
+
+    expect(decryptBundle(file, key.toString('hex'))).toEqual({
+      format: 'dotenv',
+      content: 'KEY=VALUE\n'
+    })
+    expect(decryptBundle(file, `${key.toString('base64')}\n`)).toEqual({
+      format: 'dotenv',
+      content: 'KEY=VALUE\n'
+    })
+  })
+
+  it('reads the format of the envelope', () => {
+    writeBundle(encrypt('{"KEY": "VALUE"}', {format: 'json'}))
+
+    expect(decryptBundle(file, key.toString('hex')).format).toBe('json')
+
+    writeBundle(encrypt('{"KEY": "VALUE"}', {format: 'yaml'}))
+
+    expect(() => decryptBundle(file, key.toString('hex'))).toThrow(
+      'Unknown bundle format value "yaml". Available: dotenv, json'
+    )
+  })
+
+  it('fails on modified data or wrong keys', () => {
+    const envelope = encrypt('KEY=VALUE\n')
+    writeBundle(envelope)
+
+    expect(() =>
+      decryptBundle(file, crypto.randomBytes(32).toString('hex'))
+    ).toThrow(
+      `Cannot decrypt bundle file ${file}: integrity check failed, the file was modified or bundle_key is wrong`
+    )
+
+    const data = Buffer.from(envelope.data as string, 'base64')
+    data[0] ^= 1
+    writeBundle({...envelope, data: data.toString('base64')})
+
+    expect(() => decryptBundle(file, key.toString('hex'))).toThrow(
+      `Cannot decrypt bundle file ${file}: integrity check failed, the file was modified or bundle_key is wrong`
+    )
+  })
+
+  it('fails on invalid keys', () => {
+    writeBundle(encrypt('KEY=VALUE\n'))
+
+    expect(() => decryptBundle(file, '')).toThrow(
+      'bundle_key is required to decrypt bundle_file'
+    )
+    expect(() => decryptBundle(file, 'short')).toThrow(
+      'Invalid bundle_key value, use a 32 bytes key encoded in hex or base64'
+    )
+  })
+
+  it('fails on invalid envelopes', () => {
+    fs.writeFileSync(file, 'KEY=VALUE')
+
+    expect(() => decryptBundle(file, key.toString('hex'))).toThrow(
+      `Cannot read bundle file ${file}: `
+    )
+
+    writeBundle({data: 'x'})
+
+    expect(() => decryptBundle(file, key.toString('hex'))).toThrow(
+      `Invalid bundle file ${file}, expected a JSON object with version, cipher, iv, tag and data`
+    )
+
+    writeBundle(encrypt('KEY=VALUE\n', {version: 2}))
+
+    expect(() => decryptBundle(file, key.toString('hex'))).toThrow(
+      'Unknown bundle version value "2". Available: 1'
+    )
+
+    writeBundle(encrypt('KEY=VALUE\n', {cipher: 'aes-128-cbc'}))
+
+    expect(() => decryptBundle(file, key.toString('hex'))).toThrow(
+      'Unknown bundle cipher value "aes-128-cbc". Available: aes-256-gcm'
+    )
+
+    writeBundle(encrypt('KEY=VALUE\n', {tag: 'AAAA'}))
+
+    expect(() => decryptBundle(file, key.toString('hex'))).toThrow(
+      `Invalid bundle file ${file}, use a 12 bytes iv and a 16 bytes tag`
+    )
+  })
+})
@@ -0,0 +1,168 @@
+import {expect, jest, beforeEach, afterEach, describe, it} from '@jest/globals'
+import * as http from 'http'
+import type {AddressInfo} from 'net'
+
+const mockCore = {
+  debug: jest.fn((s: string) => console.log(`DEBUG: ${s}`)),
+  warning: jest.fn((s: string | Error) => console.log(`WARNING: ${s}`)),
+  setSecret: jest.fn(),
+  getIDToken: jest.fn(async (_audience?: string) => 'ID_TOKEN')
+}
+
+jest.unstable_mockModule('@actions/core', () => mockCore)
+
+const {readVault} = await import('../src/vault.js')
+
+interface Request {
+  method?: string
+  url?: string
+  token?: string
+  body: string
+}
+
+describe('vault', () => {
+  let server: http.Server
+  let url: string
+  let requests: Request[]
+  let respond: (req: Request) => [number, unknown]
+
+  beforeEach(async () => {
+    requests = []
+    respond = () => [404, {errors: []}]
+    server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()))
+      req.on('end', () => {
+        const request = {
+          method: req.method,
+          url: req.url,
+          token: req.headers['x-vault-token'] as string | undefined,
+          body
+        }
+        requests.push(request)
+        const [status, response] = respond(request)
+        if (status < 0) {
+          // Never answer, to trigger timeouts
+          return
+        }
+        res.writeHead(status, {'Content-Type': 'application/json'})
+        res.end(JSON.stringify(response))
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+  })
+
+  afterEach(async () => {
+    server.closeAllConnections()
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  const config = (
+    overrides: Partial<Parameters<typeof readVault>[0]> = {}
+  ): Parameters<typeof readVault>[0] => ({
+    url,
+    paths: ['secret/data/app'],
+    token: 'TOKEN',
+    role: '',
+    authPath: 'jwt',
+    audience: '',
+    timeout: 1000,
+    ...overrides
+  })
+
+  it('reads and masks the fields of every path', async () => {
+    respond = ({url: path}) =>
+      path === '/v1/secret/data/app'
+        ? [200, {data: {data: {API_KEY: 'KEY', PORT: 443}}}]
+        : [200, {data: {data: {API_KEY: 'OTHER', DB_PASSWORD: 'PASS'}}}]
+
+    const variables = await readVault(
+      config({paths: ['secret/data/app', 'secret/data/db']})
+    )
+
+    expect(variables).toEqual({
+      API_KEY: 'OTHER',
+      PORT: '443',
+      DB_PASSWORD: 'PASS'
+    })
+    expect(
+      requests.map(({method, url, token}) => [method, url, token])
+    ).toEqual([
+      ['GET', '/v1/secret/data/app', 'TOKEN'],
+      ['GET', '/v1/secret/data/db', 'TOKEN']
+    ])
+    for (const value of ['KEY', '443', 'OTHER', 'PASS']) {
+      expect(mockCore.setSecret).toHaveBeenCalledWith(value)
+    }
+    expect(mockCore.warning).toHaveBeenCalledWith(
+      'API_KEY from Vault path secret/data/db replaces the one from secret/data/app'
+    )
+  })
+
+  it('logs in with the GitHub OIDC token', async () => {
+    respond = ({url: path}) =>
+      path === '/v1/auth/github/login'
+        ? [200, {auth: {client_token: 'CLIENT_TOKEN'}}]
+        : [200, {data: {data: {API_KEY: 'KEY'}}}]
+
+    const variables = await readVault(
+      config({token: '', role: 'deploy', authPath: 'github', audience: 'vault'})
+    )
+
+    expect(variables).toEqual({API_KEY: 'KEY'})
+    expect(mockCore.getIDToken).toHaveBeenCalledWith('vault')
+    expect(requests[0]).toEqual({
+      method: 'POST',
+      url: '/v1/auth/github/login',
+      token: undefined,
+      body: JSON.stringify({role: 'deploy', jwt: 'ID_TOKEN'})
+    })
+    expect(requests[1].token).toBe('CLIENT_TOKEN')
+    expect(mockCore.setSecret).toHaveBeenCalledWith('CLIENT_TOKEN')
+  })
+
+  it('requires a token or a role', async () => {
+    await expect(readVault(config({token: ''}))).rejects.toThrow(
+      'vault_token or vault_role is required to read from Vault'
+    )
+  })
+
+  it('reports denied access', async () => {
+    respond = () => [403, {errors: ['permission denied']}]
+
+    await expect(readVault(config())).rejects.toThrow(
+      'Vault denied access to secret/data/app (403), check the token or role policies'
+    )
+  })
+
+  it('reports missing paths', async () => {
+    await expect(readVault(config())).rejects.toThrow(
+      'Vault path secret/data/app not found (404)'
+    )
+  })
+
+  it('reports other errors', async () => {
+    respond = () => [500, {errors: ['internal error']}]
+
+    await expect(readVault(config())).rejects.toThrow(
+      'Vault request to secret/data/app failed with status 500: internal error'
+    )
+  })
+
+  it('reports paths that are not KV v2 secrets', async () => {
+    respond = () => [200, {data: {keys: ['app']}}]
+
+    await expect(readVault(config())).rejects.toThrow(
+      'Vault path secret/data/app is not a KV v2 secret'
+    )
+  })
+
+  it('times out', async () => {
+    respond = () => [-1, null]
+
+    await expect(readVault(config({timeout: 100}))).rejects.toThrow(
+      'Vault request to secret/data/app timed out after 0.1s'
+    )
+  })
+})
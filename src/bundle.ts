@@ -0,0 +1,109 @@
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+
+export type BundleFormat = 'dotenv' | 'json'
+
+export interface Bundle {
+  format: BundleFormat
+  content: string
+}
+
+// Encrypted bundles are JSON envelopes, with base64 iv, tag and data:
+// {"version": 1, "cipher": "aes-256-gcm", "format": "dotenv", ...}
+interface Envelope {
+  version?: unknown
+  cipher?: unknown
+  format?: unknown
+  iv?: unknown
+  tag?: unknown
+  data?: unknown
+}
+
+const bundleCiphers = ['aes-256-gcm']
+const bundleFormats: BundleFormat[] = ['dotenv', 'json']
+
+// Keys are 32 bytes, encoded in hex or base64
+function parseKey(key: string): Buffer {
+  const trimmed = key.trim()
+  const decoded = /^[0-9a-f]{64}$/i.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64')
+  if (decoded.length !== 32) {
+    throw new Error(
+      'Invalid bundle_key value, use a 32 bytes key encoded in hex or base64'
+    )
+  }
+  return decoded
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number'
+    ? String(value)
+    : JSON.stringify(value)
+}
+
+export function decryptBundle(filePath: string, key: string): Bundle {
+  if (!key.length) {
+    throw new Error('bundle_key is required to decrypt bundle_file')
+  }
+  const keyBytes = parseKey(key)
+
+  let envelope: Envelope
+  try {
+    envelope = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Envelope
+  } catch (error: unknown) {
+    throw new Error(
+      `Cannot read bundle file ${filePath}: ${error instanceof Error ? error.message : 'unknown error'}`
+    )
+  }
+  if (
+    !envelope ||
+    typeof envelope !== 'object' ||
+    typeof envelope.iv !== 'string' ||
+    typeof envelope.tag !== 'string' ||
+    typeof envelope.data !== 'string'
+  ) {
+    throw new Error(
+      `Invalid bundle file ${filePath}, expected a JSON object with version, cipher, iv, tag and data`
+    )
+  }
+  if (envelope.version !== 1) {
+    throw new Error(
+      `Unknown bundle version value "${text(envelope.version)}". Available: 1`
+    )
+  }
+  if (!bundleCiphers.includes(envelope.cipher as string)) {
+    throw new Error(
+      `Unknown bundle cipher value "${text(envelope.cipher)}". Available: ${bundleCiphers.join(', ')}`
+    )
+  }
+  const format = (envelope.format ?? 'dotenv') as BundleFormat
+  if (!bundleFormats.includes(format)) {
+    throw new Error(
+      `Unknown bundle format value "${text(envelope.format)}". Available: ${bundleFormats.join(', ')}`
+    )
+  }
+
+  const iv = Buffer.from(envelope.iv, 'base64')
+  const tag = Buffer.from(envelope.tag, 'base64')
+  if (iv.length !== 12 || tag.length !== 16) {
+    throw new Error(
+      `Invalid bundle file ${filePath}, use a 12 bytes iv and a 16 bytes tag`
+    )
+  }
+
+  // GCM authenticates the data, final() throws if it or the key do not match
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', keyBytes, iv)
+    decipher.setAuthTag(tag)
+    const content = Buffer.concat([
+      decipher.update(Buffer.from(envelope.data, 'base64')),
+      decipher.final()
+    ]).toString('utf8')
+    return {format, content}
+  } catch {
+    throw new Error(
+      `Cannot decrypt bundle file ${filePath}: integrity check failed, the file was modified or bundle_key is wrong`
+    )
+  }
+}
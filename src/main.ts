@@ -1,213 +1,2461 @@
 import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
 import {fileURLToPath} from 'url'
+import * as yaml from 'js-yaml'
+import {decryptBundle} from './bundle.js'
+import {readVault} from './vault.js'
 
 import {camelCase} from 'camel-case'
 import {constantCase} from 'constant-case'
 import {pascalCase} from 'pascal-case'
 import {snakeCase} from 'snake-case'
 
-type SourceType = 'secret' | 'var'
+// "file" variables are read from the files and directories given by the
+// source_files and source_dirs inputs, "vault" ones from the vault_* inputs
+// and "bundle" ones from the encrypted bundle_file
+type SourceType = 'secret' | 'var' | 'file' | 'vault' | 'bundle'
 type CollisionStrategy = 'prefer-secrets' | 'prefer-vars' | 'error' | 'warn'
 
 interface ProcessedVariable {
   value: string
   source: SourceType
   originalKey: string
+  // Field of the originalKey JSON object the value was expanded from
+  jsonPath?: string
+  // The whole JSON value of an expanded field, masked instead of short fields
+  jsonParent?: string
+  // Whether originalKey is specific to the current scope
+  scoped?: boolean
+  // Set by the rule the variable matched in the config file
+  targets?: ExportTarget[]
+  validation?: ValidationRule
 }
 
+type ExportTarget = 'env' | 'file' | 'output'
+
 interface ProcessingConfig {
-  includeList: string[] | null
-  excludeList: string[]
+  includeList: KeyPattern[] | null
+  excludeList: KeyPattern[]
   removePrefix: string
   keyPrefix: string
   convert: string
   convertPrefix: boolean
+  expandJson: boolean
+  expandJsonSeparator: string
+  expandJsonDepth: number
+  base64Include: string[]
+  base64Suffix: string
+  base64StripSuffix: boolean
+  mapping: Map<string, string>
+  scope: string
+  transforms: ValueTransform[]
+}
+
+// Transforms applied in order to the values of the variables matching a
+// key pattern
+interface ValueTransform {
+  key: string
+  transforms: string[]
+}
+
+type PatternSyntax = 'regex' | 'glob' | 'exact'
+
+// A compiled include or exclude pattern, "!PATTERN" negates it
+interface KeyPattern {
+  pattern: string
+  regex: RegExp
+  negated: boolean
+}
+
+type ReportAction = 'export' | 'skip' | 'override' | 'collision'
+
+// A decision taken about a secret or var, never including its value
+interface ReportEntry {
+  originalKey: string
+  source: SourceType
+  finalKey: string | null
+  action: ReportAction
+  reason: string
+  // The include or exclude rule that filtered the variable out
+  filter?: FilterRule
+  // The variable that won a collision, e.g. "secret DB.host"
+  winner?: string
+}
+
+interface FilterRule {
+  // "rules" when excluded by a rule of the config file
+  input: 'include' | 'exclude' | 'rules'
+  pattern: string | null
+}
+
+// Bump when the audit log changes in a non backwards compatible way
+const AUDIT_SCHEMA_VERSION = 1
+
+interface AuditEntry {
+  originalKey: string
+  source: SourceType
+  finalKey: string | null
+  action: ReportAction
+  filter: {included: boolean; rule: FilterRule | null}
+  collision:
+    | {outcome: 'none'}
+    | {outcome: 'won'; over: string[]}
+    | {outcome: 'lost'; to: string}
+  override: 'none' | 'overridden' | 'skipped'
+}
+
+interface Collision {
+  finalKey: string
+  // For collisions within a single source, the variable that is kept
+  first: ProcessedVariable
+  second: ProcessedVariable
+}
+
+interface FileOutputConfig {
+  path: string
+  format: string
+  append: boolean
+  mode: number
+}
+
+// What the post step needs to know about an exported variable, never
+// including its value
+interface ExportedState {
+  key: string
+  source: SourceType
+  targets: string[]
+}
+
+interface Formatter {
+  // Whether the output of several runs can be concatenated into a valid file
+  appendable: boolean
+  // Throws if the name cannot be written, checked before exporting anything
+  checkKey?: (key: string) => void
+  format: (entries: [string, string][]) => string
+}
+
+type ValidationSeverity = 'error' | 'warn'
+
+// Checks applied to the values of the variables matching a key pattern
+interface ValidationRule {
+  key: string
+  pattern: string | null
+  minLength: number | null
+  maxLength: number | null
+  type: string | null
+  jsonKeys: string[]
+  forbidden: string[]
+  severity: ValidationSeverity
+}
+
+// A rule of the config file, applied to the keys it matches first
+interface ExportRule {
+  line: number
+  match: KeyPattern[]
+  source: SourceType | null
+  exclude: boolean
+  rename: string | null
+  keyPrefix: string | null
+  removePrefix: string | null
+  convert: string | null
+  convertPrefix: boolean | null
+  transforms: string[] | null
+  targets: ExportTarget[] | null
+  validation: ValidationRule | null
+}
+
+// Sources a variable can come from, pre-existing environment variables
+// included
+type PrecedenceSource = SourceType | 'env'
+
+// Which source wins a collision, highest precedence first
+interface PrecedenceConfig {
+  order: PrecedenceSource[]
+  // Per key pattern orders, the first matching pattern applies
+  keys: {key: string; order: PrecedenceSource[]; envListed: boolean}[]
+  // How the order was configured, for reports
+  sourceLabel: string
+  envLabel: string
+  // Whether env was listed, otherwise override placed it
+  envListed: boolean
+}
+
+interface ExportConfig {
+  strategy: CollisionStrategy
+  precedence: PrecedenceConfig
+  exportEnv: boolean
+  file: FileOutputConfig | null
+  outputSources: SourceType[]
+  outputInclude: string[]
+  maskDerived: boolean
+  maskVars: boolean
+  secretFilesInclude: string[]
+  secretFilesDir: string
+  templates: Map<string, string>
+  dryRun: boolean
+  summary: boolean
+  validation: ValidationRule[]
+}
+
+const convertTypes: Record<string, (s: string) => string> = {
+  lower: s => s.toLowerCase(),
+  upper: s => s.toUpperCase(),
+  camel: camelCase,
+  constant: constantCase,
+  pascal: pascalCase,
+  snake: snakeCase
+}
+
+const valueTransforms: Record<string, (s: string) => string> = {
+  trim: s => s.trim(),
+  'strip-newline': s => s.replace(/(\r?\n)+$/, ''),
+  'unescape-newlines': s => s.replace(/\\r\\n|\\n/g, '\n'),
+  'crlf-to-lf': s => s.replace(/\r\n/g, '\n'),
+  lower: s => s.toLowerCase()
+}
+
+const formatters: Record<string, Formatter> = {
+  dotenv: {
+    appendable: true,
+    format: entries =>
+      entries
+        .map(([key, value]) => `${key}=${formatDotenvValue(value)}\n`)
+        .join('')
+  },
+  json: {
+    appendable: false,
+    format: entries =>
+      `${JSON.stringify(Object.fromEntries(entries), null, 2)}\n`
+  },
+  yaml: {
+    appendable: true,
+    format: entries =>
+      entries
+        .map(
+          ([key, value]) =>
+            `${formatYamlKey(key)}: ${formatYamlString(value)}\n`
+        )
+        .join('')
+  },
+  shell: {
+    appendable: true,
+    checkKey: key => {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+        throw new Error(
+          `Cannot write "${key}" to a shell script, it is not a valid variable name`
+        )
+      }
+    },
+    format: entries =>
+      entries
+        .map(([key, value]) => `export ${key}=${formatShellValue(value)}\n`)
+        .join('')
+  },
+  properties: {
+    appendable: true,
+    format: entries =>
+      entries
+        .map(
+          ([key, value]) =>
+            `${escapeProperties(key, true)}=${escapeProperties(value, false)}\n`
+        )
+        .join('')
+  }
+}
+
+function formatDotenvValue(value: string): string {
+  // Plain values can be written as-is
+  if (/^[\w.,:/@+-]*$/.test(value)) {
+    return value
+  }
+
+  // Single quotes keep everything literal, but cannot span lines or contain
+  // a single quote themselves
+  if (!/[\n\r']/.test(value)) {
+    return `'${value}'`
+  }
+
+  // Double quotes expand variables in Docker Compose and dotenv-expand
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, '\\$')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+  return `"${escaped}"`
+}
+
+function formatYamlKey(key: string): string {
+  // Keys that YAML would read as booleans or null must be quoted
+  if (
+    /^[A-Za-z_][\w.-]*$/.test(key) &&
+    !/^(y|n|yes|no|on|off|true|false|null)$/i.test(key)
+  ) {
+    return key
+  }
+  return formatYamlString(key)
+}
+
+function formatYamlString(value: string): string {
+  // JSON strings are valid double-quoted YAML scalars, except for the
+  // non-printable characters JSON leaves unescaped
+  return JSON.stringify(value).replace(
+    /[\u007f-\u009f]/g,
+    c => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`
+  )
+}
+
+function formatShellValue(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+function escapeProperties(text: string, isKey: boolean): string {
+  let escaped = ''
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charAt(i)
+    const code = text.charCodeAt(i)
+    if (c === '\\') {
+      escaped += '\\\\'
+    } else if (c === '\n') {
+      escaped += '\\n'
+    } else if (c === '\r') {
+      escaped += '\\r'
+    } else if (c === '\t') {
+      escaped += '\\t'
+    } else if (c === '\f') {
+      escaped += '\\f'
+    } else if (c === ' ' && (isKey || i === 0)) {
+      escaped += '\\ '
+    } else if ('=:#!'.includes(c) && (isKey || i === 0)) {
+      escaped += `\\${c}`
+    } else if (code < 0x20 || code > 0x7e) {
+      // Properties files are read as ISO-8859-1, escape everything else
+      escaped += `\\u${code.toString(16).padStart(4, '0')}`
+    } else {
+      escaped += c
+    }
+  }
+  return escaped
+}
+
+function processKey(key: string, config: ProcessingConfig): string {
+  let newKey = key
+
+  // Remove prefix if specified
+  if (config.removePrefix.length) {
+    const prefixRegex = new RegExp(`^${config.removePrefix}`, 'i')
+    if (newKey.match(prefixRegex)) {
+      newKey = newKey.replace(prefixRegex, '')
+      core.debug(
+        `Removed prefix "${config.removePrefix}" from ${key} -> ${newKey}`
+      )
+    }
+  }
+
+  // Add prefix if specified
+  newKey = config.keyPrefix.length ? `${config.keyPrefix}${newKey}` : newKey
+
+  // Convert case if specified
+  if (config.convert.length) {
+    if (!Object.hasOwn(convertTypes, config.convert)) {
+      throw new Error(
+        `Unknown convert value "${config.convert}". Available: ${Object.keys(
+          convertTypes
+        ).join(', ')}`
+      )
+    }
+
+    if (!config.convertPrefix) {
+      newKey = `${config.keyPrefix}${convertTypes[config.convert](
+        newKey.replace(config.keyPrefix, '')
+      )}`
+    } else {
+      newKey = convertTypes[config.convert](newKey)
+    }
+  }
+
+  return newKey
+}
+
+function flattenJson(
+  object: Record<string, unknown>,
+  maxDepth: number,
+  path: string[] = []
+): {path: string[]; value: string}[] {
+  const fields: {path: string[]; value: string}[] = []
+
+  for (const [field, value] of Object.entries(object)) {
+    const fieldPath = [...path, field]
+
+    if (
+      value &&
+      typeof value === 'object' &&
+      !Array.isArray(value) &&
+      (maxDepth === 0 || fieldPath.length < maxDepth)
+    ) {
+      fields.push(
+        ...flattenJson(value as Record<string, unknown>, maxDepth, fieldPath)
+      )
+    } else if (typeof value === 'string') {
+      fields.push({path: fieldPath, value})
+    } else {
+      fields.push({
+        path: fieldPath,
+        value: value === null ? '' : JSON.stringify(value)
+      })
+    }
+  }
+
+  return fields
+}
+
+function parseJsonObject(value: string): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(value)
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>
+    }
+  } catch {
+    // Not JSON, exported as-is
+  }
+  return null
+}
+
+function decodeBase64(value: string, description: string): string {
+  // Line breaks are commonly inserted by encoders such as `base64`
+  const encoded = value.replace(/\s/g, '')
+
+  // Both the standard and the URL-safe alphabets are accepted, padding is
+  // optional but must be correct when present
+  if (
+    !/^[A-Za-z0-9+/_-]*={0,2}$/.test(encoded) ||
+    (encoded.includes('=')
+      ? encoded.length % 4 !== 0
+      : encoded.length % 4 === 1)
+  ) {
+    throw new Error(`Cannot decode ${description}: value is not valid base64`)
+  }
+
+  return Buffer.from(encoded, 'base64').toString('utf8')
+}
+
+function parseMapping(mappingStr: string): Map<string, string> {
+  const mapping = new Map<string, string>()
+  const lines = mappingStr
+    .split(/\r?\n/)
+    .filter(line => line.trim().length && !line.trim().startsWith('#'))
+
+  // FROM=TO lines
+  if (lines.every(line => /^[^:=]+=/.test(line))) {
+    for (const line of lines) {
+      const separator = line.indexOf('=')
+      const from = line.slice(0, separator).trim()
+      const to = line.slice(separator + 1).trim()
+      if (!to.length) {
+        throw new Error(`Invalid mapping for "${from}", the new name is empty`)
+      }
+      if (mapping.has(from)) {
+        throw new Error(`Mapping for "${from}" is defined more than once`)
+      }
+      mapping.set(from, to)
+    }
+    return mapping
+  }
+
+  // YAML mapping
+  let parsed: unknown
+  try {
+    parsed = yaml.load(mappingStr)
+  } catch (error: unknown) {
+    throw new Error(
+      `Cannot parse mapping: ${error instanceof Error ? error.message : 'unknown error'}`
+    )
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(
+      'Invalid mapping, use a YAML mapping (FROM: TO) or FROM=TO lines'
+    )
+  }
+  for (const [from, to] of Object.entries(parsed)) {
+    if (typeof to !== 'string' || !to.length) {
+      throw new Error(
+        `Invalid mapping for "${from}", the new name must be a non-empty string`
+      )
+    }
+    mapping.set(from, to)
+  }
+  return mapping
+}
+
+function parseTransforms(transformsStr: string): ValueTransform[] {
+  if (!transformsStr.trim().length) {
+    return []
+  }
+
+  let parsed: unknown
+  try {
+    parsed = yaml.load(transformsStr)
+  } catch (error: unknown) {
+    throw new Error(
+      `Cannot parse transform: ${error instanceof Error ? error.message : 'unknown error'}`
+    )
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(
+      'Invalid transform value, use a YAML mapping of key patterns to transforms'
+    )
+  }
+
+  return Object.entries(parsed as Record<string, unknown>).map(
+    ([key, value]) => ({key, transforms: parseTransformList(key, value)})
+  )
+}
+
+function parseTransformList(key: string, value: unknown): string[] {
+  const transforms: unknown[] = Array.isArray(value) ? value : [value]
+  for (const transform of transforms) {
+    if (
+      typeof transform !== 'string' ||
+      !Object.hasOwn(valueTransforms, transform)
+    ) {
+      throw new Error(
+        `Unknown transform value "${String(transform)}" for "${key}". Available: ${Object.keys(valueTransforms).join(', ')}`
+      )
+    }
+  }
+  return transforms as string[]
+}
+
+// Position of the quote closing a value, backslashes escape double quotes
+function closingQuote(text: string, quote: string): number {
+  for (let i = 0; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++
+    } else if (text[i] === quote) {
+      return i
+    }
+  }
+  return -1
+}
+
+function parseDotenv(
+  content: string,
+  filePath: string
+): Record<string, string> {
+  const variables: Record<string, string> = {}
+  const lines = content.split(/\r?\n/)
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]
+    if (!line.trim().length || line.trim().startsWith('#')) {
+      continue
+    }
+
+    const match = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/.exec(line)
+    if (!match) {
+      throw new Error(`Invalid line ${index + 1} in ${filePath}, use KEY=VALUE`)
+    }
+
+    const [, key] = match
+    let rawValue = match[2]
+
+    // Quoted values can span lines, e.g. PEM keys
+    const quote = rawValue[0]
+    if (
+      (quote === '"' || quote === "'") &&
+      closingQuote(rawValue.slice(1), quote) < 0
+    ) {
+      const start = index
+      let end = -1
+      while (end < 0) {
+        index++
+        if (index >= lines.length) {
+          throw new Error(
+            `Unterminated quoted value at line ${start + 1} in ${filePath}`
+          )
+        }
+        end = closingQuote(lines[index], quote)
+        rawValue += `\n${end < 0 ? lines[index] : lines[index].slice(0, end + 1)}`
+      }
+      if (!/^\s*(#.*)?$/.test(lines[index].slice(end + 1))) {
+        throw new Error(
+          `Invalid line ${index + 1} in ${filePath}, use KEY=VALUE`
+        )
+      }
+    }
+
+    let value = rawValue
+    if (/^'.*'$/s.test(rawValue)) {
+      value = rawValue.slice(1, -1)
+    } else if (/^".*"$/s.test(rawValue)) {
+      value = rawValue
+        .slice(1, -1)
+        .replace(/\\([\\"$nr])/g, (_: string, char: string) =>
+          char === 'n' ? '\n' : char === 'r' ? '\r' : char
+        )
+    } else {
+      // Unquoted values can end with a comment
+      value = rawValue.replace(/\s+#.*$/, '')
+    }
+    variables[key] = value
+  }
+
+  return variables
+}
+
+function jsonVariables(
+  object: Record<string, unknown>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(object).map(([key, value]) => [
+      key,
+      typeof value === 'string' ? value : JSON.stringify(value)
+    ])
+  )
+}
+
+// Reads the variables of dotenv and JSON files, later files win
+function readSourceFiles(paths: string[]): Record<string, string> {
+  const variables: Record<string, string> = {}
+  const origins: Record<string, string> = {}
+
+  for (const filePath of paths) {
+    let content: string
+    try {
+      content = fs.readFileSync(filePath, 'utf8')
+    } catch (error: unknown) {
+      throw new Error(
+        `Cannot read source file ${filePath}: ${error instanceof Error ? error.message : 'unknown error'}`
+      )
+    }
+
+    let fileVariables: Record<string, string>
+    if (path.extname(filePath).toLowerCase() === '.json') {
+      const parsed = parseJsonObject(content)
+      if (!parsed) {
+        throw new Error(`Invalid JSON source file ${filePath}, use an object`)
+      }
+      fileVariables = jsonVariables(parsed)
+    } else {
+      fileVariables = parseDotenv(content, filePath)
+    }
+
+    for (const [key, value] of Object.entries(fileVariables)) {
+      if (key in origins) {
+        core.warning(
+          `${key} from ${filePath} replaces the one from ${origins[key]}`
+        )
+      }
+      variables[key] = value
+      origins[key] = filePath
+    }
+    core.debug(
+      `Read ${Object.keys(fileVariables).length} variable(s) from ${filePath}`
+    )
+  }
+
+  return variables
 }
 
-const convertTypes: Record<string, (s: string) => string> = {
-  lower: s => s.toLowerCase(),
-  upper: s => s.toUpperCase(),
-  camel: camelCase,
-  constant: constantCase,
-  pascal: pascalCase,
-  snake: snakeCase
+// Reads one variable per file, named after the file. Hidden files are
+// skipped, such as the ..data directory of Kubernetes secret volumes
+function readSourceDirs(dirs: string[]): Record<string, string> {
+  const variables: Record<string, string> = {}
+
+  for (const dir of dirs) {
+    let names: string[]
+    try {
+      names = fs.readdirSync(dir).sort()
+    } catch (error: unknown) {
+      throw new Error(
+        `Cannot read source directory ${dir}: ${error instanceof Error ? error.message : 'unknown error'}`
+      )
+    }
+
+    for (const name of names) {
+      const filePath = path.join(dir, name)
+      if (name.startsWith('.') || !fs.statSync(filePath).isFile()) {
+        continue
+      }
+      if (name in variables) {
+        core.warning(`${name} from ${dir} replaces the one read before`)
+      }
+      variables[name] = fs.readFileSync(filePath, 'utf8')
+    }
+    core.debug(`Read source directory ${dir}`)
+  }
+
+  return variables
+}
+
+// Reads the variables of an encrypted dotenv or JSON bundle
+function readBundle(filePath: string, key: string): Record<string, string> {
+  const bundle = decryptBundle(filePath, key)
+
+  let variables: Record<string, string>
+  if (bundle.format === 'json') {
+    const parsed = parseJsonObject(bundle.content)
+    if (!parsed) {
+      throw new Error(`Invalid JSON bundle file ${filePath}, use an object`)
+    }
+    variables = jsonVariables(parsed)
+  } else {
+    variables = parseDotenv(bundle.content, filePath)
+  }
+
+  core.debug(
+    `Read ${Object.keys(variables).length} variable(s) from bundle ${filePath}`
+  )
+  return variables
+}
+
+function compilePatterns(
+  patternsStr: string,
+  syntax: PatternSyntax,
+  input: string
+): KeyPattern[] {
+  return patternsStr
+    .split(',')
+    .map(key => key.trim())
+    .map(pattern => {
+      const negated = pattern.startsWith('!')
+      const body = negated ? pattern.slice(1) : pattern
+      const escaped = body.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+      let source = body
+      if (syntax === 'exact') {
+        source = `^${escaped}$`
+      } else if (syntax === 'glob') {
+        source = `^${escaped.replace(/\\\*/g, '.*').replace(/\\\?/g, '.')}$`
+      }
+
+      try {
+        return {pattern, regex: new RegExp(source), negated}
+      } catch (error: unknown) {
+        throw new Error(
+          `Invalid ${input} pattern "${pattern}": ${error instanceof Error ? error.message : 'unknown error'}`
+        )
+      }
+    })
+}
+
+// The last pattern matching the key decides, like in .gitignore files
+function lastMatch(patterns: KeyPattern[], key: string): KeyPattern | null {
+  for (let i = patterns.length - 1; i >= 0; i--) {
+    if (patterns[i].regex.test(key)) {
+      return patterns[i]
+    }
+  }
+  return null
+}
+
+// Names produced more than once by a source must not be silently
+// overwritten. The first mapping wins, then a variable already having the
+// name, then the first variable
+function setSourceVariable(
+  processed: Map<string, ProcessedVariable>,
+  newKey: string,
+  variable: ProcessedVariable,
+  mappingIndex: (variable: ProcessedVariable) => number,
+  collisions: Collision[],
+  report: ReportEntry[]
+): void {
+  const existing = processed.get(newKey)
+  if (!existing) {
+    processed.set(newKey, variable)
+    return
+  }
+
+  const unchanged = (v: ProcessedVariable): boolean =>
+    !v.jsonPath && v.originalKey === newKey
+  let precedence = 'key order'
+  let replace = false
+  if (mappingIndex(variable) !== mappingIndex(existing)) {
+    precedence = 'mapping order'
+    replace = mappingIndex(variable) < mappingIndex(existing)
+  } else if (unchanged(variable) !== unchanged(existing)) {
+    precedence = 'unchanged name'
+    replace = unchanged(variable)
+  }
+
+  const {source} = variable
+  const [kept, dropped] = replace ? [variable, existing] : [existing, variable]
+  collisions.push({finalKey: newKey, first: kept, second: dropped})
+  report.push({
+    originalKey: describeOrigin(dropped),
+    source,
+    finalKey: newKey,
+    action: 'collision',
+    reason: `${source} ${describeOrigin(kept)} takes precedence (${precedence})`,
+    winner: `${source} ${describeOrigin(kept)}`
+  })
+  processed.set(newKey, kept)
+}
+
+function processVariables(
+  variables: Record<string, string>,
+  source: SourceType,
+  config: ProcessingConfig,
+  collisions: Collision[] = [],
+  report: ReportEntry[] = [],
+  // All keys of the source, when only a part of it is processed
+  sourceKeys: string[] = Object.keys(variables)
+): Map<string, ProcessedVariable> {
+  const processed = new Map<string, ProcessedVariable>()
+  const mappingOrder = Array.from(config.mapping.keys())
+
+  // Position of the variable in the mapping, unmapped variables come last
+  const mappingIndex = (variable: ProcessedVariable): number => {
+    const index = mappingOrder.indexOf(variable.originalKey)
+    return index < 0 ? mappingOrder.length : index
+  }
+
+  const setProcessed = (newKey: string, variable: ProcessedVariable): void =>
+    setSourceVariable(
+      processed,
+      newKey,
+      variable,
+      mappingIndex,
+      collisions,
+      report
+    )
+
+  // The rule filtering the variable out, or null if it is not
+  const filterRule = (key: string): FilterRule | null => {
+    // Filter by include patterns, mapped variables are always included.
+    // A list of negated patterns only includes everything else
+    if (!config.mapping.has(key) && config.includeList) {
+      const include = lastMatch(config.includeList, key)
+      const included = include
+        ? !include.negated
+        : config.includeList.every(inc => inc.negated)
+      if (!included) {
+        return {input: 'include', pattern: include?.pattern ?? null}
+      }
+    }
+
+    // Filter by exclude patterns
+    const exclude = lastMatch(config.excludeList, key)
+    return exclude && !exclude.negated
+      ? {input: 'exclude', pattern: exclude.pattern}
+      : null
+  }
+
+  // Name of the variable without the scope, if it is scoped
+  const scopePrefix = `${config.scope}_`
+  const unscopedName = (key: string): string | null =>
+    config.scope.length && key.toUpperCase().startsWith(scopePrefix)
+      ? key.slice(scopePrefix.length)
+      : null
+
+  // Unscoped variables are only used as a fallback for scoped ones
+  const scopedNames = new Set(
+    sourceKeys
+      .filter(key => filterRule(key) === null)
+      .map(unscopedName)
+      .filter(name => name !== null)
+  )
+
+  for (const key of Object.keys(variables)) {
+    const mappedKey = config.mapping.get(key)
+
+    const filter = filterRule(key)
+    if (filter !== null) {
+      report.push({
+        originalKey: key,
+        source,
+        finalKey: null,
+        action: 'skip',
+        reason:
+          filter.input !== 'include'
+            ? `excluded by "${filter.pattern}"`
+            : filter.pattern === null
+              ? 'not matched by include'
+              : `excluded by include "${filter.pattern}"`,
+        filter
+      })
+      continue
+    }
+
+    const scopedName = unscopedName(key)
+    if (scopedName === null && scopedNames.has(key)) {
+      core.info(
+        `Ignoring ${source} ${key}, ${source} ${scopePrefix}${key} takes precedence (scope: ${config.scope})`
+      )
+      report.push({
+        originalKey: key,
+        source,
+        finalKey: null,
+        action: 'skip',
+        reason: `${source} ${scopePrefix}${key} takes precedence (scope: ${config.scope})`,
+        winner: `${source} ${scopePrefix}${key}`
+      })
+      continue
+    }
+
+    let name = key
+    let value = variables[key]
+
+    if (scopedName !== null) {
+      name = scopedName
+      core.info(`Using ${source} ${key} for ${name} (scope: ${config.scope})`)
+    }
+
+    // Decode base64 values if specified
+    const hasBase64Suffix =
+      config.base64Suffix.length > 0 &&
+      key.toUpperCase().endsWith(config.base64Suffix.toUpperCase())
+    if (
+      hasBase64Suffix ||
+      config.base64Include.some(inc => key.match(new RegExp(inc)))
+    ) {
+      value = decodeBase64(value, `${source} "${key}"`)
+      if (hasBase64Suffix && config.base64StripSuffix) {
+        name = name.slice(0, -config.base64Suffix.length)
+      }
+      core.debug(`Decoded base64 ${source} ${key}`)
+    }
+
+    // Transform values, in the order of the patterns and their transforms
+    for (const transform of config.transforms) {
+      if (new RegExp(`^(?:${transform.key})$`).test(key)) {
+        for (const name of transform.transforms) {
+          value = valueTransforms[name](value)
+        }
+        core.debug(
+          `Transformed ${source} ${key} (${transform.transforms.join(', ')})`
+        )
+      }
+    }
+
+    // Mapped names are used as-is, without prefix or case conversion
+    if (mappedKey !== undefined) {
+      name = mappedKey
+      core.debug(`Mapped ${key} -> ${mappedKey}`)
+    }
+    const toFinalKey = (newName: string): string =>
+      mappedKey === undefined ? processKey(newName, config) : newName
+
+    // Expand JSON objects into one variable per field
+    const jsonObject = config.expandJson ? parseJsonObject(value) : null
+    if (jsonObject) {
+      const fields = flattenJson(jsonObject, config.expandJsonDepth)
+      core.debug(`Expanded JSON ${key} into ${fields.length} variable(s)`)
+
+      for (const field of fields) {
+        const newKey = toFinalKey(
+          [name, ...field.path].join(config.expandJsonSeparator)
+        )
+        setProcessed(newKey, {
+          value: field.value,
+          source,
+          originalKey: key,
+          jsonPath: field.path.join('.'),
+          jsonParent: value,
+          scoped: scopedName !== null
+        })
+      }
+      continue
+    }
+
+    setProcessed(toFinalKey(name), {
+      value,
+      source,
+      originalKey: key,
+      scoped: scopedName !== null
+    })
+  }
+
+  return processed
+}
+
+const ruleOptions = [
+  'match',
+  'source',
+  'exclude',
+  'rename',
+  'prefix',
+  'remove_prefix',
+  'convert',
+  'convert_prefix',
+  'transform',
+  'target',
+  'validate'
+]
+
+const exportTargetTypes: ExportTarget[] = ['env', 'file', 'output']
+
+// Source names of the inputs and rules
+const sourceTypes: Record<string, SourceType> = {
+  secrets: 'secret',
+  vars: 'var',
+  files: 'file',
+  vault: 'vault',
+  bundle: 'bundle'
+}
+
+function loadRules(
+  filePath: string,
+  defaultSyntax: PatternSyntax,
+  hasFile: boolean
+): ExportRule[] {
+  let content: string
+  try {
+    content = fs.readFileSync(filePath, 'utf8')
+  } catch (error: unknown) {
+    throw new Error(
+      `Cannot read config file ${filePath}: ${error instanceof Error ? error.message : 'unknown error'}`
+    )
+  }
+
+  // Line of every YAML mapping and sequence, to locate errors
+  const lines = new Map<unknown, number>()
+  const openLines: number[] = []
+  let parsed: unknown
+  try {
+    parsed = yaml.load(content, {
+      filename: filePath,
+      listener: (event, state) => {
+        if (event === 'open') {
+          openLines.push(state.line + 1)
+          return
+        }
+        const line = openLines.pop()
+        if (
+          line !== undefined &&
+          state.result &&
+          typeof state.result === 'object'
+        ) {
+          lines.set(state.result, line)
+        }
+      }
+    })
+  } catch (error: unknown) {
+    throw new Error(
+      `Cannot parse config file: ${error instanceof Error ? error.message : 'unknown error'}`
+    )
+  }
+
+  const fail = (node: unknown, message: string): never => {
+    const line = lines.get(node)
+    throw new Error(
+      `Invalid config file ${filePath}${line === undefined ? '' : `, line ${line}`}: ${message}`
+    )
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return fail(parsed, 'use a YAML or JSON mapping with a rules list')
+  }
+  const config = parsed as Record<string, unknown>
+  for (const option of Object.keys(config)) {
+    if (option !== 'rules' && option !== 'pattern_syntax') {
+      fail(
+        config,
+        `unknown option "${option}". Available: rules, pattern_syntax`
+      )
+    }
+  }
+
+  const syntax = config.pattern_syntax ?? defaultSyntax
+  if (syntax !== 'regex' && syntax !== 'glob' && syntax !== 'exact') {
+    return fail(
+      config,
+      `invalid pattern_syntax value ${JSON.stringify(syntax)}. Valid values: regex, glob, exact`
+    )
+  }
+  if (!Array.isArray(config.rules)) {
+    return fail(config, 'rules must be a list')
+  }
+
+  return (config.rules as unknown[]).map((rule, index) => {
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      return fail(config.rules, `rule ${index + 1} must be a mapping`)
+    }
+    const options = rule as Record<string, unknown>
+
+    for (const option of Object.keys(options)) {
+      if (!ruleOptions.includes(option)) {
+        fail(
+          rule,
+          `unknown rule option "${option}". Available: ${ruleOptions.join(', ')}`
+        )
+      }
+    }
+
+    const text = (option: string): string | null => {
+      const value = options[option]
+      if (value === undefined) {
+        return null
+      }
+      if (typeof value !== 'string' || !value.length) {
+        return fail(rule, `${option} must be a non-empty string`)
+      }
+      return value
+    }
+    const flag = (option: string): boolean | null => {
+      const value = options[option]
+      if (value === undefined) {
+        return null
+      }
+      if (typeof value !== 'boolean') {
+        return fail(rule, `${option} must be true or false`)
+      }
+      return value
+    }
+    const list = (option: string): string[] | null => {
+      const value = options[option]
+      if (value === undefined) {
+        return null
+      }
+      const values: unknown[] = Array.isArray(value) ? value : [value]
+      if (!values.length || values.some(item => typeof item !== 'string')) {
+        return fail(rule, `${option} must be a string or a list of strings`)
+      }
+      return values as string[]
+    }
+
+    const match = list('match')
+    if (match === null) {
+      return fail(rule, 'match is required')
+    }
+
+    const source = text('source')
+    if (source !== null && !Object.hasOwn(sourceTypes, source)) {
+      return fail(
+        rule,
+        `invalid source value "${source}". Valid values: ${Object.keys(sourceTypes).join(', ')}`
+      )
+    }
+
+    const convert = text('convert')
+    if (convert !== null && !Object.hasOwn(convertTypes, convert)) {
+      return fail(
+        rule,
+        `unknown convert value "${convert}". Available: ${Object.keys(convertTypes).join(', ')}`
+      )
+    }
+
+    const targets = list('target')
+    for (const target of targets ?? []) {
+      if (!exportTargetTypes.includes(target as ExportTarget)) {
+        fail(
+          rule,
+          `invalid target value "${target}". Valid values: ${exportTargetTypes.join(', ')}`
+        )
+      }
+      if (target === 'file' && !hasFile) {
+        fail(rule, 'target file requires the file input')
+      }
+    }
+
+    // Reuse the errors of the inputs with the same syntax
+    const located = <T>(parse: () => T): T => {
+      try {
+        return parse()
+      } catch (error: unknown) {
+        return fail(
+          rule,
+          error instanceof Error ? error.message : String(error)
+        )
+      }
+    }
+
+    return {
+      line: lines.get(rule) ?? 0,
+      match: located(() => compilePatterns(match.join(','), syntax, 'match')),
+      source: source === null ? null : sourceTypes[source],
+      exclude: flag('exclude') ?? false,
+      rename: text('rename'),
+      keyPrefix: text('prefix'),
+      removePrefix: text('remove_prefix'),
+      convert,
+      convertPrefix: flag('convert_prefix'),
+      transforms:
+        options.transform === undefined
+          ? null
+          : located(() => parseTransformList('transform', options.transform)),
+      targets: targets as ExportTarget[] | null,
+      validation:
+        options.validate === undefined
+          ? null
+          : located(() => parseValidationRule('validate', options.validate))
+    }
+  })
+}
+
+// Processes every group of keys matched first by the same rule with the
+// settings of the rule, and the keys matched by no rule with the inputs
+function applyRules(
+  variables: Record<string, string>,
+  source: SourceType,
+  rules: ExportRule[],
+  config: ProcessingConfig,
+  collisions: Collision[] = [],
+  report: ReportEntry[] = []
+): Map<string, ProcessedVariable> {
+  if (!rules.length) {
+    return processVariables(variables, source, config, collisions, report)
+  }
+
+  const groups = rules.map((): Record<string, string> => ({}))
+  const unmatched: Record<string, string> = {}
+  // Keys not excluded by a rule, to resolve scopes across the groups
+  const sourceKeys: string[] = []
+  for (const [key, value] of Object.entries(variables)) {
+    const index = rules.findIndex(rule => {
+      if (rule.source !== null && rule.source !== source) {
+        return false
+      }
+      const match = lastMatch(rule.match, key)
+      return match ? !match.negated : rule.match.every(pat => pat.negated)
+    })
+
+    if (index < 0) {
+      unmatched[key] = value
+    } else if (rules[index].exclude) {
+      report.push({
+        originalKey: key,
+        source,
+        finalKey: null,
+        action: 'skip',
+        reason: `excluded by rule at line ${rules[index].line}`,
+        filter: {
+          input: 'rules',
+          pattern: rules[index].match.map(pat => pat.pattern).join(', ')
+        }
+      })
+    } else {
+      groups[index][key] = value
+    }
+    if (index < 0 || !rules[index].exclude) {
+      sourceKeys.push(key)
+    }
+  }
+
+  const results: [string, ProcessedVariable][] = []
+  rules.forEach((rule, index) => {
+    const keys = Object.keys(groups[index])
+    if (!keys.length) {
+      return
+    }
+
+    const ruleConfig: ProcessingConfig = {
+      ...config,
+      keyPrefix: rule.keyPrefix ?? config.keyPrefix,
+      removePrefix: rule.removePrefix ?? config.removePrefix,
+      convert: rule.convert ?? config.convert,
+      convertPrefix: rule.convertPrefix ?? config.convertPrefix,
+      mapping: rule.rename
+        ? new Map([
+            ...config.mapping,
+            ...keys.map((key): [string, string] => [key, rule.rename ?? key])
+          ])
+        : config.mapping,
+      transforms: rule.transforms
+        ? [{key: '.*', transforms: rule.transforms}]
+        : config.transforms
+    }
+
+    for (const [key, variable] of processVariables(
+      groups[index],
+      source,
+      ruleConfig,
+      collisions,
+      report,
+      sourceKeys
+    ).entries()) {
+      results.push([
+        key,
+        {
+          ...variable,
+          targets: rule.targets ?? undefined,
+          validation: rule.validation ?? undefined
+        }
+      ])
+    }
+  })
+  results.push(
+    ...processVariables(
+      unmatched,
+      source,
+      config,
+      collisions,
+      report,
+      sourceKeys
+    ).entries()
+  )
+
+  // Keep the order of the keys, as without rules
+  const order = Object.keys(variables)
+  results.sort(
+    ([, a], [, b]) =>
+      order.indexOf(a.originalKey) - order.indexOf(b.originalKey)
+  )
+
+  // Renaming rules count as mappings, in the order of the rules
+  const mappingOrder = [
+    ...config.mapping.keys(),
+    ...rules.flatMap((rule, index) =>
+      rule.rename ? Object.keys(groups[index]) : []
+    )
+  ]
+  const mappingIndex = (variable: ProcessedVariable): number => {
+    const index = mappingOrder.indexOf(variable.originalKey)
+    return index < 0 ? mappingOrder.length : index
+  }
+
+  const processed = new Map<string, ProcessedVariable>()
+  for (const [key, variable] of results) {
+    setSourceVariable(
+      processed,
+      key,
+      variable,
+      mappingIndex,
+      collisions,
+      report
+    )
+  }
+  return processed
+}
+
+function describeOrigin(variable: ProcessedVariable): string {
+  return variable.jsonPath
+    ? `${variable.originalKey}.${variable.jsonPath}`
+    : variable.originalKey
+}
+
+function writeVariablesFile(
+  variables: Map<string, ProcessedVariable>,
+  config: FileOutputConfig
+): void {
+  const content = formatters[config.format].format(
+    Array.from(variables.entries()).map(([key, variable]) => [
+      key,
+      variable.value
+    ])
+  )
+
+  fs.writeFileSync(config.path, content, {
+    flag: config.append ? 'a' : 'w',
+    mode: config.mode
+  })
+  // The mode is only applied when the file is created, enforce it on
+  // pre-existing files as well
+  fs.chmodSync(config.path, config.mode)
+
+  core.info(`Wrote ${variables.size} variable(s) to ${config.path}`)
+}
+
+// Derived values shorter than this are not masked, as they would hide
+// unrelated parts of the logs
+const MIN_DERIVED_MASK_LENGTH = 4
+
+function collectJsonStrings(value: unknown, strings: string[]): void {
+  if (typeof value === 'string') {
+    strings.push(value)
+  } else if (value && typeof value === 'object') {
+    for (const child of Object.values(value)) {
+      collectJsonStrings(child, strings)
+    }
+  }
+}
+
+function deriveMaskValues(value: string): string[] {
+  const derived = [
+    ...value.split(/\r?\n/),
+    Buffer.from(value).toString('base64'),
+    encodeURIComponent(value)
+  ]
+
+  // Values of JSON secrets may be extracted with e.g. fromJSON() or jq
+  try {
+    const parsed: unknown = JSON.parse(value)
+    if (parsed && typeof parsed === 'object') {
+      collectJsonStrings(parsed, derived)
+    }
+  } catch {
+    // Not JSON, nothing to extract
+  }
+
+  return derived.filter(
+    derivedValue =>
+      derivedValue !== value &&
+      derivedValue.trim().length >= MIN_DERIVED_MASK_LENGTH
+  )
+}
+
+// Values of vars are the only ones that are not sensitive
+function isSensitive(source: SourceType): boolean {
+  return source !== 'var'
+}
+
+function maskVariable(variable: ProcessedVariable, config: ExportConfig): void {
+  if (!isSensitive(variable.source) && !config.maskVars) {
+    return
+  }
+
+  // Expanded JSON fields are derived values too: short ones would hide
+  // unrelated parts of the logs, the whole JSON value is masked instead
+  const values =
+    variable.jsonParent !== undefined &&
+    variable.value.trim().length < MIN_DERIVED_MASK_LENGTH
+      ? []
+      : [variable.value]
+  if (variable.jsonParent !== undefined) {
+    values.push(variable.jsonParent)
+  }
+  if (config.maskDerived) {
+    values.push(...values.flatMap(deriveMaskValues))
+  }
+
+  for (const value of new Set(values)) {
+    if (value.length) {
+      core.setSecret(value)
+    }
+  }
+}
+
+function exportTargets(
+  variable: ProcessedVariable,
+  config: ExportConfig
+): ExportTarget[] {
+  if (variable.targets) {
+    return variable.targets
+  }
+  if (isOutputTarget(variable, config)) {
+    return ['output']
+  }
+
+  const targets: ExportTarget[] = []
+  if (config.exportEnv) {
+    targets.push('env')
+  }
+  if (config.file) {
+    targets.push('file')
+  }
+  return targets
+}
+
+function isOutputTarget(
+  variable: ProcessedVariable,
+  config: ExportConfig
+): boolean {
+  return (
+    config.outputSources.includes(variable.source) ||
+    config.outputInclude.some(inc =>
+      variable.originalKey.match(new RegExp(inc))
+    )
+  )
+}
+
+function isSecretFile(
+  variable: ProcessedVariable,
+  config: ExportConfig
+): boolean {
+  return config.secretFilesInclude.some(inc =>
+    variable.originalKey.match(new RegExp(inc))
+  )
+}
+
+function writeSecretFile(
+  key: string,
+  variable: ProcessedVariable,
+  dir: string
+): string {
+  if (key !== path.basename(key) || key === '.' || key === '..') {
+    throw new Error(
+      `Cannot write "${key}" to a file, it is not a valid file name`
+    )
+  }
+
+  const filePath = path.join(dir, key)
+  fs.writeFileSync(filePath, variable.value, {mode: 0o600})
+  core.info(`Wrote ${variable.source} ${key} to ${filePath}`)
+
+  return filePath
+}
+
+function parseTemplates(templatesStr: string): Map<string, string> {
+  const templates = new Map<string, string>()
+
+  for (const line of templatesStr.split(/\r?\n/)) {
+    if (!line.trim().length || line.trim().startsWith('#')) {
+      continue
+    }
+
+    const separator = line.indexOf('=')
+    const name = line.slice(0, separator).trim()
+    if (separator < 0 || !name.length) {
+      throw new Error(
+        `Invalid template "${line.trim()}". Use NAME=template, e.g.: URL=https://\${HOST}`
+      )
+    }
+    if (templates.has(name)) {
+      throw new Error(`Template "${name}" is defined more than once`)
+    }
+
+    templates.set(name, line.slice(separator + 1).trim())
+  }
+
+  return templates
+}
+
+function renderTemplates(
+  templates: Map<string, string>,
+  merged: Map<string, ProcessedVariable>,
+  secretsMap: Map<string, ProcessedVariable>,
+  varsMap: Map<string, ProcessedVariable>
+): Map<string, ProcessedVariable> {
+  const rendered = new Map<string, ProcessedVariable>()
+
+  const render = (name: string, stack: string[]): ProcessedVariable => {
+    const done = rendered.get(name)
+    if (done) {
+      return done
+    }
+    if (stack.includes(name)) {
+      throw new Error(
+        `Cycle detected in templates: ${[...stack, name].join(' -> ')}`
+      )
+    }
+
+    // Resolves a reference to its value, and whether it comes from a secret
+    const resolve = (
+      reference: string
+    ): {value: string; secret: boolean} | undefined => {
+      const [scope, ...rest] = reference.split('.')
+      const scopedKey = rest.join('.')
+
+      if (rest.length && scope === 'secrets') {
+        const variable = secretsMap.get(scopedKey)
+        return variable && {value: variable.value, secret: true}
+      }
+      if (rest.length && scope === 'vars') {
+        const variable = varsMap.get(scopedKey)
+        return variable && {value: variable.value, secret: false}
+      }
+      if (rest.length && scope === 'env') {
+        const value = process.env[scopedKey]
+        return value === undefined ? undefined : {value, secret: false}
+      }
+
+      if (templates.has(reference)) {
+        const variable = render(reference, [...stack, name])
+        return {value: variable.value, secret: isSensitive(variable.source)}
+      }
+      const variable = merged.get(reference)
+      if (variable) {
+        return {value: variable.value, secret: isSensitive(variable.source)}
+      }
+      const value = process.env[reference]
+      return value === undefined ? undefined : {value, secret: false}
+    }
+
+    let fromSecret = false
+    const value = (templates.get(name) ?? '').replace(
+      /\$\$|\$\{([^}]*)\}/g,
+      (match: string, reference: string | undefined) => {
+        // $$ escapes a literal $
+        if (reference === undefined) {
+          return '$'
+        }
+
+        const resolved = resolve(reference.trim())
+        if (!resolved) {
+          throw new Error(
+            `Template "${name}" references "${reference.trim()}", which is not defined`
+          )
+        }
+        fromSecret = fromSecret || resolved.secret
+        return resolved.value
+      }
+    )
+
+    // Treated as a secret as soon as one secret contributed to the value
+    const variable: ProcessedVariable = {
+      value,
+      source: fromSecret ? 'secret' : 'var',
+      originalKey: name
+    }
+    rendered.set(name, variable)
+    return variable
+  }
+
+  for (const name of templates.keys()) {
+    render(name, [])
+  }
+
+  return rendered
+}
+
+const valueTypes: Record<string, (value: string) => boolean> = {
+  number: value => /^-?\d+(\.\d+)?$/.test(value),
+  boolean: value => value === 'true' || value === 'false',
+  url: value => {
+    if (/\s/.test(value)) {
+      return false
+    }
+    try {
+      new URL(value)
+      return true
+    } catch {
+      return false
+    }
+  },
+  json: value => {
+    try {
+      JSON.parse(value)
+      return true
+    } catch {
+      return false
+    }
+  }
+}
+
+const validationOptions = [
+  'pattern',
+  'min_length',
+  'max_length',
+  'type',
+  'json_keys',
+  'forbidden',
+  'severity'
+]
+
+function parseValidation(validationStr: string): ValidationRule[] {
+  if (!validationStr.trim().length) {
+    return []
+  }
+
+  let parsed: unknown
+  try {
+    parsed = yaml.load(validationStr)
+  } catch (error: unknown) {
+    throw new Error(
+      `Cannot parse validate: ${error instanceof Error ? error.message : 'unknown error'}`
+    )
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(
+      'Invalid validate value, use a YAML mapping of key patterns to checks'
+    )
+  }
+
+  return Object.entries(parsed as Record<string, unknown>).map(
+    ([key, options]) => parseValidationRule(key, options)
+  )
+}
+
+function parseValidationRule(key: string, options: unknown): ValidationRule {
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    throw new Error(`Invalid validation for "${key}", use a YAML mapping`)
+  }
+  const checks = options as Record<string, unknown>
+
+  for (const option of Object.keys(checks)) {
+    if (!validationOptions.includes(option)) {
+      throw new Error(
+        `Unknown validation option "${option}" for "${key}". Available: ${validationOptions.join(', ')}`
+      )
+    }
+  }
+
+  const length = (option: string): number | null => {
+    const value = checks[option]
+    if (value === undefined) {
+      return null
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new Error(
+        `Invalid ${option} for "${key}", use a non-negative integer`
+      )
+    }
+    return value
+  }
+  const text = (option: string): string | null => {
+    const value = checks[option]
+    if (value === undefined) {
+      return null
+    }
+    if (
+      typeof value !== 'string' &&
+      typeof value !== 'number' &&
+      typeof value !== 'boolean'
+    ) {
+      throw new Error(`Invalid ${option} for "${key}", use a string`)
+    }
+    return String(value)
+  }
+  const list = (option: string): string[] => {
+    const value = checks[option] ?? []
+    const values = Array.isArray(value) ? value : [value]
+    return values.map(item => String(item))
+  }
+
+  const type = text('type')
+  if (type !== null && !(type in valueTypes)) {
+    throw new Error(
+      `Invalid validation type "${type}" for "${key}". Valid values: ${Object.keys(valueTypes).join(', ')}`
+    )
+  }
+
+  const severity = text('severity') ?? 'error'
+  if (severity !== 'error' && severity !== 'warn') {
+    throw new Error(
+      `Invalid validation severity "${severity}" for "${key}". Valid values: error, warn`
+    )
+  }
+
+  return {
+    key,
+    pattern: text('pattern'),
+    minLength: length('min_length'),
+    maxLength: length('max_length'),
+    type,
+    jsonKeys: list('json_keys'),
+    forbidden: list('forbidden'),
+    severity
+  }
+}
+
+// Why the value breaks the rule, never including the value itself
+function validationErrors(value: string, rule: ValidationRule): string[] {
+  const errors: string[] = []
+
+  if (rule.pattern !== null && !new RegExp(rule.pattern).test(value)) {
+    errors.push(`does not match pattern "${rule.pattern}"`)
+  }
+  if (rule.minLength !== null && value.length < rule.minLength) {
+    errors.push(`is shorter than ${rule.minLength} characters`)
+  }
+  if (rule.maxLength !== null && value.length > rule.maxLength) {
+    errors.push(`is longer than ${rule.maxLength} characters`)
+  }
+  if (rule.type !== null && !valueTypes[rule.type](value)) {
+    errors.push(`is not a valid ${rule.type}`)
+  }
+  if (rule.jsonKeys.length) {
+    const object = parseJsonObject(value)
+    const missing = rule.jsonKeys.filter(key => !object || !(key in object))
+    if (missing.length) {
+      errors.push(`is missing JSON key(s) ${missing.join(', ')}`)
+    }
+  }
+  if (rule.forbidden.includes(value)) {
+    errors.push('is a forbidden placeholder value')
+  }
+
+  return errors
+}
+
+function validateVariables(
+  variables: Map<string, ProcessedVariable>,
+  rules: ValidationRule[]
+): void {
+  const failures: string[] = []
+
+  const validate = (
+    key: string,
+    variable: ProcessedVariable,
+    rule: ValidationRule
+  ): void => {
+    for (const error of validationErrors(variable.value, rule)) {
+      const message = `${key} (${variable.source} ${describeOrigin(variable)}) ${error}`
+      if (rule.severity === 'warn') {
+        core.warning(`Invalid value: ${message}`)
+      } else {
+        failures.push(`  - ${message}`)
+      }
+    }
+  }
+
+  for (const rule of rules) {
+    const regex = new RegExp(`^(?:${rule.key})$`)
+    for (const [key, variable] of variables.entries()) {
+      if (regex.test(key)) {
+        validate(key, variable, rule)
+      }
+    }
+  }
+
+  // Checks of the rules of the config file
+  for (const [key, variable] of variables.entries()) {
+    if (variable.validation) {
+      validate(key, variable, variable.validation)
+    }
+  }
+
+  if (failures.length) {
+    throw new Error(`Invalid values:\n${failures.join('\n')}`)
+  }
 }
 
-function processVariables(
-  variables: Record<string, string>,
-  source: SourceType,
-  config: ProcessingConfig
-): Map<string, ProcessedVariable> {
-  const processed = new Map<string, ProcessedVariable>()
+// Fails if a required secret or var is missing, empty or filtered out.
+// Required names are "secrets.NAME", "vars.NAME" or "NAME" for any source,
+// NAME being a pattern matched against the whole original key
+function checkRequired(
+  required: string[],
+  variables: Partial<Record<SourceType, Record<string, string>>>,
+  report: ReportEntry[]
+): void {
+  const missing: string[] = []
 
-  for (const key of Object.keys(variables)) {
-    // Filter by include patterns
-    if (
-      config.includeList &&
-      !config.includeList.some(inc => key.match(new RegExp(inc)))
-    ) {
-      continue
+  for (const entry of required) {
+    const [, prefix, pattern] = /^(?:(secrets|vars)\.)?(.*)$/.exec(entry) ?? []
+    const sources: SourceType[] =
+      prefix === 'secrets'
+        ? ['secret']
+        : prefix === 'vars'
+          ? ['var']
+          : (Object.keys(variables) as SourceType[])
+    const regex = new RegExp(`^(?:${pattern})$`)
+
+    const problems: string[] = []
+    let found = false
+    for (const source of sources) {
+      for (const [key, value] of Object.entries(variables[source] ?? {})) {
+        if (!regex.test(key)) {
+          continue
+        }
+
+        const filtered = report.find(
+          other =>
+            other.source === source &&
+            other.originalKey === key &&
+            other.filter !== undefined
+        )
+        if (filtered) {
+          problems.push(`${source} ${key} is filtered out (${filtered.reason})`)
+        } else if (!value.length) {
+          problems.push(`${source} ${key} is empty`)
+        } else {
+          found = true
+        }
+      }
     }
 
-    // Filter by exclude patterns
-    if (config.excludeList.some(exc => key.match(new RegExp(exc)))) {
+    if (found) {
       continue
     }
+    if (!problems.length) {
+      problems.push(
+        `not found in ${sources.map(source => `${source}s`).join(' or ')}`
+      )
+    }
+    missing.push(`  - ${entry}: ${problems.join(', ')}`)
+  }
+
+  if (missing.length) {
+    throw new Error(`Missing required secrets or vars:\n${missing.join('\n')}`)
+  }
+}
 
-    let newKey = key
+function applyScopePrecedence(
+  sourceMaps: Map<SourceType, Map<string, ProcessedVariable>>,
+  report: ReportEntry[]
+): void {
+  const keys = new Set(
+    [...sourceMaps.values()].flatMap(sourceMap => [...sourceMap.keys()])
+  )
 
-    // Remove prefix if specified
-    if (config.removePrefix.length) {
-      const prefixRegex = new RegExp(`^${config.removePrefix}`, 'i')
-      if (newKey.match(prefixRegex)) {
-        newKey = newKey.replace(prefixRegex, '')
-        core.debug(
-          `Removed prefix "${config.removePrefix}" from ${key} -> ${newKey}`
-        )
+  for (const key of keys) {
+    const candidates = [...sourceMaps.values()]
+      .filter(sourceMap => sourceMap.has(key))
+      .map(sourceMap => ({
+        sourceMap,
+        variable: sourceMap.get(key) as ProcessedVariable
+      }))
+    const scoped = candidates.find(({variable}) => variable.scoped)?.variable
+    if (!scoped) {
+      continue
+    }
+
+    for (const {sourceMap, variable: unscoped} of candidates) {
+      if (unscoped.scoped) {
+        continue
       }
+      sourceMap.delete(key)
+      core.info(
+        `Ignoring ${unscoped.source} ${describeOrigin(unscoped)}, ${scoped.source} ${describeOrigin(scoped)} takes precedence for ${key}`
+      )
+      report.push({
+        originalKey: describeOrigin(unscoped),
+        source: unscoped.source,
+        finalKey: key,
+        action: 'collision',
+        reason: `${scoped.source} ${describeOrigin(scoped)} takes precedence (scope)`,
+        winner: `${scoped.source} ${describeOrigin(scoped)}`
+      })
     }
+  }
+}
 
-    // Add prefix if specified
-    newKey = config.keyPrefix.length ? `${config.keyPrefix}${newKey}` : newKey
+function resolveScope(scope: string, scopeFrom: string): string {
+  let resolved = scope
 
-    // Convert case if specified
-    if (config.convert.length) {
-      if (!convertTypes[config.convert]) {
-        throw new Error(
-          `Unknown convert value "${config.convert}". Available: ${Object.keys(
-            convertTypes
-          ).join(', ')}`
-        )
-      }
+  if (!resolved.length && scopeFrom === 'branch') {
+    resolved = process.env.GITHUB_REF_NAME || ''
+    if (!resolved.length) {
+      throw new Error('Cannot resolve scope, GITHUB_REF_NAME is not set')
+    }
+  } else if (!resolved.length && scopeFrom === 'environment') {
+    const eventPath = process.env.GITHUB_EVENT_PATH
+    const event = eventPath
+      ? (JSON.parse(fs.readFileSync(eventPath, 'utf8')) as {
+          deployment?: {environment?: string}
+        })
+      : {}
+    resolved = event.deployment?.environment || ''
+    if (!resolved.length) {
+      throw new Error(
+        'Cannot resolve scope, the workflow was not triggered by a deployment. Set scope explicitly, e.g.: scope: ${{ inputs.environment }}'
+      )
+    }
+  } else if (
+    scopeFrom.length &&
+    scopeFrom !== 'branch' &&
+    scopeFrom !== 'environment'
+  ) {
+    throw new Error(
+      `Invalid scope_from value "${scopeFrom}". Valid values: branch, environment`
+    )
+  }
 
-      if (!config.convertPrefix) {
-        newKey = `${config.keyPrefix}${convertTypes[config.convert](
-          newKey.replace(config.keyPrefix, '')
-        )}`
-      } else {
-        newKey = convertTypes[config.convert](newKey)
-      }
+  // Scoped names are e.g. STAGING_API_KEY or FEATURE_FOO_API_KEY
+  return resolved
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+const precedenceSources: PrecedenceSource[] = [
+  'env',
+  'secret',
+  'var',
+  'file',
+  'vault',
+  'bundle'
+]
+
+function listedSources(value: unknown): string[] {
+  return (
+    Array.isArray(value) ? value.map(String) : String(value).split(',')
+  ).map(source => source.trim())
+}
+
+// Parses a list of sources, completed with the unlisted ones in the
+// default order
+function parsePrecedence(
+  value: unknown,
+  defaultOrder: PrecedenceSource[],
+  input: string
+): PrecedenceSource[] {
+  const listed = listedSources(value)
+
+  for (const [index, source] of listed.entries()) {
+    if (!precedenceSources.includes(source as PrecedenceSource)) {
+      throw new Error(
+        `Invalid ${input} value "${source}". Valid values: ${precedenceSources.join(', ')}`
+      )
+    }
+    if (listed.indexOf(source) !== index) {
+      throw new Error(`Source "${source}" is listed more than once in ${input}`)
     }
+  }
 
-    processed.set(newKey, {
-      value: variables[key],
-      source,
-      originalKey: key
-    })
+  const order = listed as PrecedenceSource[]
+  const missing = defaultOrder.filter(source => !order.includes(source))
+  // Unlisted pre-existing environment variables keep their place
+  if (missing.includes('env') && defaultOrder[0] === 'env') {
+    return ['env', ...order, ...missing.filter(source => source !== 'env')]
+  }
+  return [...order, ...missing]
+}
+
+function parsePrecedenceKeys(
+  precedenceKeysStr: string,
+  defaultOrder: PrecedenceSource[]
+): PrecedenceConfig['keys'] {
+  if (!precedenceKeysStr.trim().length) {
+    return []
   }
 
-  return processed
+  let parsed: unknown
+  try {
+    parsed = yaml.load(precedenceKeysStr)
+  } catch (error: unknown) {
+    throw new Error(
+      `Cannot parse precedence_keys: ${error instanceof Error ? error.message : 'unknown error'}`
+    )
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(
+      'Invalid precedence_keys value, use a YAML mapping of key patterns to sources'
+    )
+  }
+
+  return Object.entries(parsed as Record<string, unknown>).map(
+    ([key, value]) => ({
+      key,
+      order: parsePrecedence(value, defaultOrder, `precedence_keys "${key}"`),
+      envListed: listedSources(value).includes('env')
+    })
+  )
 }
 
-function detectCollisions(
-  secretsMap: Map<string, ProcessedVariable>,
-  varsMap: Map<string, ProcessedVariable>
-): {finalKey: string; secretOriginal: string; varOriginal: string}[] {
-  const collisions: {
-    finalKey: string
-    secretOriginal: string
-    varOriginal: string
-  }[] = []
-
-  for (const [key, secretVar] of secretsMap.entries()) {
-    const varVar = varsMap.get(key)
-    if (varVar) {
-      collisions.push({
-        finalKey: key,
-        secretOriginal: secretVar.originalKey,
-        varOriginal: varVar.originalKey
-      })
+function precedenceFor(
+  key: string,
+  precedence: PrecedenceConfig
+): Omit<PrecedenceConfig, 'keys'> {
+  const keyPrecedence = precedence.keys.find(({key: pattern}) =>
+    new RegExp(`^(?:${pattern})$`).test(key)
+  )
+  if (keyPrecedence) {
+    const label = `precedence_keys: ${keyPrecedence.key}`
+    return {
+      order: keyPrecedence.order,
+      sourceLabel: label,
+      envLabel: keyPrecedence.envListed ? label : precedence.envLabel,
+      envListed: keyPrecedence.envListed || precedence.envListed
     }
   }
-
-  return collisions
+  return precedence
 }
 
 function mergeAndExport(
-  secretsMap: Map<string, ProcessedVariable>,
-  varsMap: Map<string, ProcessedVariable>,
-  strategy: CollisionStrategy,
-  override: boolean
+  sourceMaps: Map<SourceType, Map<string, ProcessedVariable>>,
+  config: ExportConfig,
+  sourceCollisions: Collision[] = [],
+  report: ReportEntry[] = []
 ): void {
+  const {strategy, precedence} = config
   const merged = new Map<string, ProcessedVariable>()
+  const secretsMap =
+    sourceMaps.get('secret') ?? new Map<string, ProcessedVariable>()
+  const varsMap = sourceMaps.get('var') ?? new Map<string, ProcessedVariable>()
 
-  if (strategy === 'error') {
-    // Detect collisions and throw if any exist
-    const collisions = detectCollisions(secretsMap, varsMap)
-    if (collisions.length > 0) {
-      const collisionDetails = collisions
-        .map(
-          c =>
-            `  - ${c.finalKey} (from secret: ${c.secretOriginal} and var: ${c.varOriginal})`
-        )
-        .join('\n')
-      throw new Error(
-        `Collision detected: The following environment variable names would be exported by both secrets and vars after processing:\n${collisionDetails}\n\nThis occurs because the same final environment variable name is produced after applying include/exclude filters, prefix manipulation, and case conversion.\n\nTo resolve:\n1. Use on_collision: 'prefer-secrets' or 'prefer-vars' to choose which source takes precedence\n2. Use on_collision: 'warn' to allow collisions with a warning\n3. Adjust include/exclude/prefix/convert settings to avoid name collisions`
+  // Scoped variables take precedence over unscoped ones from any source
+  applyScopePrecedence(sourceMaps, report)
+
+  // Collisions that fail the action with on_collision: error
+  const collisionDetails = (strategy === 'error' ? sourceCollisions : []).map(
+    c =>
+      `  - ${c.finalKey} (from ${c.first.source}: ${describeOrigin(c.first)} and ${c.second.source}: ${describeOrigin(c.second)})`
+  )
+  const resolveCollision = (
+    key: string,
+    origins: string[],
+    winner: string
+  ): void => {
+    if (strategy === 'error') {
+      collisionDetails.push(`  - ${key} (from ${origins.join(' and ')})`)
+    } else if (strategy === 'warn') {
+      core.warning(
+        `Collision detected for environment variable "${key}"\n` +
+          origins.map(origin => `  - From ${origin}\n`).join('') +
+          `Using value from ${winner} (on_collision: warn)`
       )
     }
-    // No collisions, merge both
-    for (const [key, value] of varsMap.entries()) {
-      merged.set(key, value)
-    }
-    for (const [key, value] of secretsMap.entries()) {
-      merged.set(key, value)
-    }
-  } else if (strategy === 'warn') {
-    // Detect collisions and log warnings
-    const collisions = detectCollisions(secretsMap, varsMap)
-    // Merge vars first, then secrets (secrets win)
-    for (const [key, value] of varsMap.entries()) {
-      merged.set(key, value)
+  }
+
+  // Names are merged from the lowest precedence source, so they keep their
+  // order
+  const sources = Array.from(sourceMaps.entries())
+  const keys = new Set(
+    [...sources]
+      .sort(
+        ([a], [b]) => precedence.order.indexOf(b) - precedence.order.indexOf(a)
+      )
+      .flatMap(([, map]) => Array.from(map.keys()))
+  )
+
+  for (const key of keys) {
+    const {order, sourceLabel} = precedenceFor(key, precedence)
+    const candidates = sources
+      .map(([, map]) => map.get(key))
+      .filter(variable => variable !== undefined)
+    const [winner, ...losers] = [...candidates].sort(
+      (a, b) => order.indexOf(a.source) - order.indexOf(b.source)
+    )
+    merged.set(key, winner)
+
+    if (!losers.length) {
+      continue
     }
-    for (const [key, value] of secretsMap.entries()) {
-      merged.set(key, value)
+    resolveCollision(
+      key,
+      candidates.map(c => `${c.source}: ${describeOrigin(c)}`),
+      `${winner.source}: ${describeOrigin(winner)}`
+    )
+
+    // Report the variables that lost a collision between sources
+    for (const variable of losers) {
+      report.push({
+        originalKey: describeOrigin(variable),
+        source: variable.source,
+        finalKey: key,
+        action: 'collision',
+        reason: `${winner.source} ${describeOrigin(winner)} takes precedence (${sourceLabel})`,
+        winner: `${winner.source} ${describeOrigin(winner)}`
+      })
     }
-    // Log warnings for collisions
-    for (const collision of collisions) {
+  }
+
+  // Collisions within a single source are always reported
+  if (strategy !== 'error') {
+    for (const collision of sourceCollisions) {
       core.warning(
         `Collision detected for environment variable "${collision.finalKey}"\n` +
-          `  - From secret: ${collision.secretOriginal}\n` +
-          `  - From var: ${collision.varOriginal}\n` +
-          `Using value from secret (on_collision: warn)`
+          `  - From ${collision.first.source}: ${describeOrigin(collision.first)}\n` +
+          `  - From ${collision.second.source}: ${describeOrigin(collision.second)}\n` +
+          `Using value from ${collision.first.source}: ${describeOrigin(collision.first)}`
+      )
+    }
+  }
+
+  // Render templates from the merged variables, they take precedence
+  for (const [key, variable] of renderTemplates(
+    config.templates,
+    merged,
+    secretsMap,
+    varsMap
+  ).entries()) {
+    const replaced = merged.get(key)
+    if (replaced) {
+      core.warning(
+        `Template "${key}" replaces the ${replaced.source} with the same name`
       )
+      report.push({
+        originalKey: describeOrigin(replaced),
+        source: replaced.source,
+        finalKey: key,
+        action: 'collision',
+        reason: `template ${key} takes precedence`,
+        winner: `template ${key}`
+      })
     }
-  } else if (strategy === 'prefer-vars') {
-    // Process secrets first, then vars (vars overwrite on collision)
-    for (const [key, value] of secretsMap.entries()) {
-      merged.set(key, value)
+    merged.set(key, variable)
+    core.debug(`Rendered template ${key}`)
+  }
+
+  // Pre-existing environment variables collide with the merged variables.
+  // With override alone, override already tells which value wins
+  const keptEnv = new Set<string>()
+  for (const [key, variable] of merged.entries()) {
+    if (!process.env[key]) {
+      continue
     }
-    for (const [key, value] of varsMap.entries()) {
-      merged.set(key, value)
+    const {order, envListed} = precedenceFor(key, precedence)
+    const envWins = order.indexOf('env') < order.indexOf(variable.source)
+    if (envWins) {
+      keptEnv.add(key)
     }
-  } else {
-    // prefer-secrets (default)
-    // Process vars first, then secrets (secrets overwrite on collision)
-    for (const [key, value] of varsMap.entries()) {
-      merged.set(key, value)
+    if (!envListed) {
+      continue
     }
-    for (const [key, value] of secretsMap.entries()) {
-      merged.set(key, value)
+    resolveCollision(
+      key,
+      [`env: ${key}`, `${variable.source}: ${describeOrigin(variable)}`],
+      envWins
+        ? `env: ${key}`
+        : `${variable.source}: ${describeOrigin(variable)}`
+    )
+  }
+
+  if (collisionDetails.length) {
+    throw new Error(
+      `Collision detected: The following environment variable names would be exported more than once after processing:\n${collisionDetails.join('\n')}\n\nThis occurs because the same final environment variable name is produced after applying include/exclude filters, mapping, prefix manipulation, and case conversion, or is already set in the environment.\n\nTo resolve:\n1. Use on_collision: 'prefer-secrets' or 'prefer-vars', or precedence, to choose which source takes precedence\n2. Use on_collision: 'warn' to allow collisions with a warning\n3. Adjust include/exclude/mapping/prefix/convert settings to avoid name collisions`
+    )
+  }
+
+  validateVariables(merged, config.validation)
+
+  // Names the file cannot hold must fail before anything is exported
+  if (config.file) {
+    const {checkKey} = formatters[config.file.format]
+    for (const [key, variable] of merged.entries()) {
+      if (
+        checkKey &&
+        !keptEnv.has(key) &&
+        exportTargets(variable, config).includes('file')
+      ) {
+        checkKey(key)
+      }
     }
   }
 
   // Export all merged variables
-  for (const [key, variable] of merged.entries()) {
+  const exported = new Map<string, ProcessedVariable>()
+  const exportedState: ExportedState[] = []
+  let secretFilesDir: string | null = null
+  for (const [key, mergedVariable] of merged.entries()) {
+    let variable = mergedVariable
+    let action: ReportAction = 'export'
+
+    if (keptEnv.has(key)) {
+      core.info(`Skip overwriting ${variable.source} ${key}`)
+      report.push({
+        originalKey: describeOrigin(variable),
+        source: variable.source,
+        finalKey: key,
+        action: 'skip',
+        reason: `environment variable already set (${precedenceFor(key, precedence).envLabel})`
+      })
+      continue
+    }
     if (process.env[key]) {
-      if (override) {
-        core.warning(`Will re-write "${key}" environment variable.`)
-      } else {
-        core.info(`Skip overwriting ${variable.source} ${key}`)
-        continue
+      core.warning(`Will re-write "${key}" environment variable.`)
+      action = 'override'
+    }
+
+    const targets = exportTargets(variable, config)
+    let reason = `${isSecretFile(variable, config) ? 'file path ' : ''}to ${targets.join(', ') || 'nowhere'}`
+    if (action === 'override') {
+      reason = `replaces existing environment variable, ${reason}`
+    }
+    report.push({
+      originalKey: describeOrigin(variable),
+      source: variable.source,
+      finalKey: key,
+      action,
+      reason
+    })
+
+    if (config.dryRun) {
+      continue
+    }
+
+    maskVariable(variable, config)
+
+    // Export the path of a file holding the value instead of the value
+    if (isSecretFile(variable, config)) {
+      if (!secretFilesDir) {
+        secretFilesDir = fs.mkdtempSync(
+          path.join(config.secretFilesDir, 'secrets-to-env-')
+        )
+        // Remembered for the post step to remove the files
+        core.saveState('secret_files_dir', secretFilesDir)
+      }
+      variable = {
+        ...variable,
+        value: writeSecretFile(key, variable, secretFilesDir)
+      }
+    }
+
+    exportedState.push({key, source: variable.source, targets})
+
+    if (targets.includes('output')) {
+      core.setOutput(key, variable.value)
+      core.info(`Set output from ${variable.source} ${key}`)
+    }
+
+    if (targets.includes('file')) {
+      exported.set(key, variable)
+    }
+
+    if (targets.includes('env')) {
+      core.exportVariable(key, variable.value)
+      core.info(`Exported ${variable.source} ${key}`)
+    }
+  }
+
+  if (config.dryRun) {
+    return
+  }
+
+  if (config.summary) {
+    addExportSummary(report)
+  }
+
+  if (config.file) {
+    // Remembered before writing, so a partially written file is removed too.
+    // Files that already existed are left alone, they may hold other values
+    if (!fs.existsSync(config.file.path)) {
+      core.saveState('file', path.resolve(config.file.path))
+    }
+    writeVariablesFile(exported, config.file)
+  }
+
+  // Remembered for the post step to report what was exported
+  core.saveState('exported', JSON.stringify(exportedState))
+}
+
+function addExportSummary(report: ReportEntry[]): void {
+  const exported = report.filter(
+    entry => entry.action === 'export' || entry.action === 'override'
+  )
+
+  core.summary.addHeading('Exported secrets and variables', 2)
+  if (!exported.length) {
+    core.summary.addRaw('No secrets or variables were exported.', true)
+    return
+  }
+
+  core.summary.addTable([
+    [
+      'Final name',
+      'Original key',
+      'Source',
+      'Overrode existing',
+      'Collisions resolved'
+    ].map(column => ({data: column, header: true})),
+    ...exported.map(entry => {
+      const collisions = report
+        .filter(
+          other =>
+            other.action === 'collision' && other.finalKey === entry.finalKey
+        )
+        .map(other => `${other.source} ${other.originalKey}`)
+
+      return [
+        entry.finalKey ?? '-',
+        entry.originalKey,
+        entry.source,
+        entry.action === 'override' ? 'yes' : 'no',
+        collisions.join(', ') || '-'
+      ]
+    })
+  ])
+}
+
+function auditEntries(report: ReportEntry[]): AuditEntry[] {
+  return report.map(entry => {
+    let collision: AuditEntry['collision'] = {outcome: 'none'}
+    if (entry.winner !== undefined) {
+      collision = {outcome: 'lost', to: entry.winner}
+    } else if (entry.finalKey !== null) {
+      const losers = report
+        .filter(
+          other =>
+            other.action === 'collision' && other.finalKey === entry.finalKey
+        )
+        .map(other => `${other.source} ${other.originalKey}`)
+      if (losers.length) {
+        collision = {outcome: 'won', over: losers}
       }
     }
 
-    core.exportVariable(key, variable.value)
-    core.info(`Exported ${variable.source} ${key}`)
+    let override: AuditEntry['override'] = 'none'
+    if (entry.action === 'override') {
+      override = 'overridden'
+    } else if (entry.action === 'skip' && entry.finalKey !== null) {
+      override = 'skipped'
+    }
+
+    return {
+      originalKey: entry.originalKey,
+      source: entry.source,
+      finalKey: entry.finalKey,
+      action: entry.action,
+      filter: {included: !entry.filter, rule: entry.filter ?? null},
+      collision,
+      override
+    }
+  })
+}
+
+function writeAuditLog(
+  report: ReportEntry[],
+  auditFile: string,
+  auditOutput: boolean
+): void {
+  const audit = JSON.stringify(
+    {schemaVersion: AUDIT_SCHEMA_VERSION, entries: auditEntries(report)},
+    null,
+    2
+  )
+
+  if (auditFile.length) {
+    fs.writeFileSync(auditFile, `${audit}\n`)
+    core.info(`Wrote audit log to ${auditFile}`)
+  }
+  if (auditOutput) {
+    core.setOutput('audit', audit)
+  }
+}
+
+const REPORT_COLUMNS = [
+  'Original key',
+  'Source',
+  'Final key',
+  'Action',
+  'Reason'
+]
+
+function reportRows(report: ReportEntry[]): string[][] {
+  return report.map(entry => [
+    entry.originalKey,
+    entry.source,
+    entry.finalKey ?? '-',
+    entry.action,
+    entry.reason
+  ])
+}
+
+function formatReportTable(report: ReportEntry[]): string {
+  const rows = [REPORT_COLUMNS, ...reportRows(report)]
+  const widths = REPORT_COLUMNS.map((_, column) =>
+    Math.max(...rows.map(row => row[column].length))
+  )
+
+  return rows
+    .map(row =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n')
+}
+
+export function post(): void {
+  try {
+    const cleanupStr: string = core.getInput('cleanup')
+    const cleanup = cleanupStr.length ? cleanupStr === 'true' : true
+
+    const exportedStateStr = core.getState('exported')
+    const exportedState = exportedStateStr.length
+      ? (JSON.parse(exportedStateStr) as ExportedState[])
+      : []
+    if (exportedState.length) {
+      core.info(
+        `Variables exported by this action:\n${exportedState
+          .map(
+            e => `  - ${e.key} (from ${e.source}, to ${e.targets.join(', ')})`
+          )
+          .join('\n')}`
+      )
+    }
+
+    // Secret files are temporary and always removed
+    const secretFilesDir = core.getState('secret_files_dir')
+    if (secretFilesDir) {
+      fs.rmSync(secretFilesDir, {recursive: true, force: true})
+      core.info(`Removed secret files in ${secretFilesDir}`)
+    }
+
+    const file = core.getState('file')
+    if (file) {
+      if (cleanup) {
+        fs.rmSync(file, {force: true})
+        core.info(`Removed ${file}`)
+      } else {
+        core.info(`Kept ${file} (cleanup: false)`)
+      }
+    }
+  } catch (error: unknown) {
+    if (error instanceof Error) {
+      core.setFailed(error.message)
+    } else {
+      core.setFailed('An unknown error occurred')
+    }
   }
 }
 
-export default function run(): void {
-  let excludeList = [
+export default async function run(): Promise<void> {
+  const defaultExcludeList = [
     // this variable is already exported automatically
     'github_token'
   ]
@@ -220,6 +2468,10 @@ export default function run(): void {
     const removePrefix: string = core.getInput('remove_prefix')
     const includeListStr: string = core.getInput('include')
     const excludeListStr: string = core.getInput('exclude')
+    const configFile: string = core.getInput('config_file')
+    const patternSyntaxStr: string = core.getInput('pattern_syntax')
+    const patternSyntax: PatternSyntax =
+      (patternSyntaxStr as PatternSyntax) || 'regex'
     const convert: string = core.getInput('convert')
     const convertPrefixStr = core.getInput('convert_prefix')
     const convertPrefix = convertPrefixStr.length
@@ -227,7 +2479,60 @@ export default function run(): void {
       : true
     const overrideStr: string = core.getInput('override')
     const override = overrideStr.length ? overrideStr === 'true' : true
+    const precedenceStr: string = core.getInput('precedence')
+    const precedenceKeysStr: string = core.getInput('precedence_keys')
     const varsJson: string = core.getInput('vars')
+    const sourceFilesStr: string = core.getInput('source_files')
+    const sourceDirsStr: string = core.getInput('source_dirs')
+    const bundleFile: string = core.getInput('bundle_file')
+    const bundleKey: string = core.getInput('bundle_key')
+    const vaultUrl: string = core.getInput('vault_url')
+    const vaultPathsStr: string = core.getInput('vault_paths')
+    const vaultToken: string = core.getInput('vault_token')
+    const vaultRole: string = core.getInput('vault_role')
+    const vaultAuthPath: string = core.getInput('vault_auth_path') || 'jwt'
+    const vaultAudience: string = core.getInput('vault_audience')
+    const vaultTimeoutStr: string = core.getInput('vault_timeout') || '10'
+    const requiredStr: string = core.getInput('required')
+    const validateStr: string = core.getInput('validate')
+    const mappingStr: string = core.getInput('mapping')
+    const transformStr: string = core.getInput('transform')
+    const scopeStr: string = core.getInput('scope')
+    const scopeFrom: string = core.getInput('scope_from')
+    const base64IncludeStr: string = core.getInput('decode_base64')
+    const base64Suffix: string = core.getInput('decode_base64_suffix')
+    const base64StripSuffixStr: string = core.getInput(
+      'decode_base64_strip_suffix'
+    )
+    const base64StripSuffix = base64StripSuffixStr.length
+      ? base64StripSuffixStr === 'true'
+      : true
+    const expandJson = core.getInput('expand_json') === 'true'
+    const expandJsonSeparator: string =
+      core.getInput('expand_json_separator') || '_'
+    const expandJsonDepthStr: string = core.getInput('expand_json_depth')
+    const exportEnvStr: string = core.getInput('export_env')
+    const exportEnv = exportEnvStr.length ? exportEnvStr === 'true' : true
+    const filePath: string = core.getInput('file')
+    const fileFormat: string = core.getInput('file_format') || 'dotenv'
+    const fileAppend = core.getInput('file_append') === 'true'
+    const fileModeStr: string = core.getInput('file_mode') || '0600'
+    const secretFilesStr: string = core.getInput('secret_files')
+    const secretFilesDir: string =
+      core.getInput('secret_files_dir') ||
+      process.env.RUNNER_TEMP ||
+      os.tmpdir()
+    const templatesStr: string = core.getInput('templates')
+    const dryRun = core.getInput('dry_run') === 'true'
+    const auditFile: string = core.getInput('audit_file')
+    const auditOutput = core.getInput('audit_output') === 'true'
+    const summaryStr: string = core.getInput('summary')
+    const summary = summaryStr.length ? summaryStr === 'true' : true
+    const outputSourcesStr: string = core.getInput('output_sources')
+    const outputIncludeStr: string = core.getInput('output_include')
+    const maskDerivedStr: string = core.getInput('mask_derived')
+    const maskDerived = maskDerivedStr.length ? maskDerivedStr === 'true' : true
+    const maskVars = core.getInput('mask_vars') === 'true'
     const onCollisionStr: string = core.getInput('on_collision')
     const onCollision: CollisionStrategy =
       (onCollisionStr as CollisionStrategy) || 'prefer-secrets'
@@ -245,6 +2550,61 @@ export default function run(): void {
       )
     }
 
+    // Validate pattern_syntax value
+    const validSyntaxes: PatternSyntax[] = ['regex', 'glob', 'exact']
+    if (patternSyntaxStr && !validSyntaxes.includes(patternSyntax)) {
+      throw new Error(
+        `Invalid pattern_syntax value "${patternSyntaxStr}". Valid values: ${validSyntaxes.join(', ')}`
+      )
+    }
+
+    if (!/^[0-7]{3,4}$/.test(fileModeStr)) {
+      throw new Error(
+        `Invalid file_mode value "${fileModeStr}". Use an octal mode such as 0600`
+      )
+    }
+
+    if (!Object.hasOwn(formatters, fileFormat)) {
+      throw new Error(
+        `Unknown file_format value "${fileFormat}". Available: ${Object.keys(
+          formatters
+        ).join(', ')}`
+      )
+    }
+
+    if (fileAppend && !formatters[fileFormat].appendable) {
+      throw new Error(
+        `file_append is not supported with file_format "${fileFormat}"`
+      )
+    }
+
+    const expandJsonDepth = expandJsonDepthStr.length
+      ? Number(expandJsonDepthStr)
+      : 0
+    if (!Number.isInteger(expandJsonDepth) || expandJsonDepth < 0) {
+      throw new Error(
+        `Invalid expand_json_depth value "${expandJsonDepthStr}". Use a positive number, or 0 for unlimited depth`
+      )
+    }
+
+    const validSources: SourceType[] = [
+      'secret',
+      'var',
+      'file',
+      'vault',
+      'bundle'
+    ]
+    const outputSources = outputSourcesStr.length
+      ? outputSourcesStr.split(',').map(source => source.trim() as SourceType)
+      : []
+    for (const source of outputSources) {
+      if (!validSources.includes(source)) {
+        throw new Error(
+          `Invalid output_sources value "${source}". Valid values: ${validSources.join(', ')}`
+        )
+      }
+    }
+
     let secrets: Record<string, string>
     try {
       secrets = JSON.parse(secretsJson) as Record<string, string>
@@ -271,19 +2631,73 @@ with:
       }
     }
 
-    let includeList: string[] | null = null
+    let excludeList = compilePatterns(
+      defaultExcludeList.join(','),
+      patternSyntax,
+      'exclude'
+    )
+
+    const hasFileSources = sourceFilesStr.length > 0 || sourceDirsStr.length > 0
+    const files = {
+      ...(sourceDirsStr.length
+        ? readSourceDirs(sourceDirsStr.split(',').map(dir => dir.trim()))
+        : {}),
+      ...(sourceFilesStr.length
+        ? readSourceFiles(sourceFilesStr.split(',').map(file => file.trim()))
+        : {})
+    }
+
+    const bundle = bundleFile.length ? readBundle(bundleFile, bundleKey) : {}
+
+    if (!/^\d+(\.\d+)?$/.test(vaultTimeoutStr)) {
+      throw new Error(
+        `Invalid vault_timeout value "${vaultTimeoutStr}". Use a number of seconds`
+      )
+    }
+    const vault = vaultUrl.length
+      ? await readVault({
+          url: vaultUrl,
+          paths: vaultPathsStr
+            .split(/[,\n]/)
+            .map(vaultPath => vaultPath.trim())
+            .filter(vaultPath => vaultPath.length),
+          token: vaultToken,
+          role: vaultRole,
+          authPath: vaultAuthPath,
+          audience: vaultAudience,
+          timeout: parseFloat(vaultTimeoutStr) * 1000
+        })
+      : {}
+
+    let includeList: KeyPattern[] | null = null
     if (includeListStr.length) {
-      includeList = includeListStr.split(',').map(key => key.trim())
+      includeList = compilePatterns(includeListStr, patternSyntax, 'include')
     }
 
     if (excludeListStr.length) {
       excludeList = excludeList.concat(
-        excludeListStr.split(',').map(key => key.trim())
+        compilePatterns(excludeListStr, patternSyntax, 'exclude')
       )
     }
 
-    core.debug(`Using include list: ${includeList?.join(', ')}`)
-    core.debug(`Using exclude list: ${excludeList.join(', ')}`)
+    const base64Include = base64IncludeStr.length
+      ? base64IncludeStr.split(',').map(key => key.trim())
+      : []
+
+    const secretFilesInclude = secretFilesStr.length
+      ? secretFilesStr.split(',').map(key => key.trim())
+      : []
+
+    const outputInclude = outputIncludeStr.length
+      ? outputIncludeStr.split(',').map(key => key.trim())
+      : []
+
+    core.debug(
+      `Using include list: ${includeList?.map(inc => inc.pattern).join(', ')}`
+    )
+    core.debug(
+      `Using exclude list: ${excludeList.map(exc => exc.pattern).join(', ')}`
+    )
 
     // Build configuration object
     const config: ProcessingConfig = {
@@ -292,15 +2706,206 @@ with:
       removePrefix,
       keyPrefix,
       convert,
-      convertPrefix
+      convertPrefix,
+      expandJson,
+      expandJsonSeparator,
+      expandJsonDepth,
+      base64Include,
+      base64Suffix,
+      base64StripSuffix,
+      mapping: parseMapping(mappingStr),
+      scope: resolveScope(scopeStr, scopeFrom),
+      transforms: parseTransforms(transformStr)
+    }
+
+    // Source specific inputs override the shared ones when set
+    const sourceConfig = (source: 'secrets' | 'vars'): ProcessingConfig => {
+      const input = (name: string): string => core.getInput(`${source}_${name}`)
+      const sourceIncludeStr = input('include')
+      const sourceExcludeStr = input('exclude')
+      const sourceConvertPrefixStr = input('convert_prefix')
+      const sourceTransformStr = input('transform')
+
+      return {
+        ...config,
+        includeList: sourceIncludeStr.length
+          ? compilePatterns(
+              sourceIncludeStr,
+              patternSyntax,
+              `${source}_include`
+            )
+          : config.includeList,
+        excludeList: sourceExcludeStr.length
+          ? compilePatterns(
+              defaultExcludeList.join(','),
+              patternSyntax,
+              'exclude'
+            ).concat(
+              compilePatterns(
+                sourceExcludeStr,
+                patternSyntax,
+                `${source}_exclude`
+              )
+            )
+          : config.excludeList,
+        removePrefix: input('remove_prefix') || config.removePrefix,
+        keyPrefix: input('prefix') || config.keyPrefix,
+        convert: input('convert') || config.convert,
+        convertPrefix: sourceConvertPrefixStr.length
+          ? sourceConvertPrefixStr === 'true'
+          : config.convertPrefix,
+        transforms: sourceTransformStr.length
+          ? parseTransforms(sourceTransformStr)
+          : config.transforms
+      }
     }
 
     // Process secrets and vars
-    const secretsMap = processVariables(secrets, 'secret', config)
-    const varsMap = processVariables(vars, 'var', config)
+    const sourceCollisions: Collision[] = []
+    const report: ReportEntry[] = []
+    const rules = configFile.length
+      ? loadRules(configFile, patternSyntax, filePath.length > 0)
+      : []
+    const secretsMap = applyRules(
+      secrets,
+      'secret',
+      rules,
+      sourceConfig('secrets'),
+      sourceCollisions,
+      report
+    )
+    const varsMap = applyRules(
+      vars,
+      'var',
+      rules,
+      sourceConfig('vars'),
+      sourceCollisions,
+      report
+    )
+    const filesMap = applyRules(
+      files,
+      'file',
+      rules,
+      config,
+      sourceCollisions,
+      report
+    )
+    const vaultMap = applyRules(
+      vault,
+      'vault',
+      rules,
+      config,
+      sourceCollisions,
+      report
+    )
+    const bundleMap = applyRules(
+      bundle,
+      'bundle',
+      rules,
+      config,
+      sourceCollisions,
+      report
+    )
+
+    if (requiredStr.length) {
+      checkRequired(
+        requiredStr.split(',').map(key => key.trim()),
+        {
+          secret: secrets,
+          var: vars,
+          ...(hasFileSources ? {file: files} : {}),
+          ...(vaultUrl.length ? {vault} : {}),
+          ...(bundleFile.length ? {bundle} : {})
+        },
+        report
+      )
+    }
+
+    // on_collision and override decide the default precedence
+    const sourceOrder: PrecedenceSource[] =
+      onCollision === 'prefer-vars'
+        ? ['var', 'secret', 'file', 'vault', 'bundle']
+        : ['secret', 'var', 'file', 'vault', 'bundle']
+    const defaultOrder: PrecedenceSource[] = override
+      ? [...sourceOrder, 'env']
+      : ['env', ...sourceOrder]
+    const precedenceOrder = precedenceStr.length
+      ? parsePrecedence(precedenceStr, defaultOrder, 'precedence')
+      : defaultOrder
+    const envListed =
+      precedenceStr.length > 0 && listedSources(precedenceStr).includes('env')
+
+    const exportConfig: ExportConfig = {
+      strategy: onCollision,
+      precedence: {
+        order: precedenceOrder,
+        keys: parsePrecedenceKeys(precedenceKeysStr, precedenceOrder),
+        sourceLabel: precedenceStr.length
+          ? 'precedence'
+          : `on_collision: ${onCollision}`,
+        envLabel: envListed ? 'precedence' : `override: ${override}`,
+        envListed
+      },
+      exportEnv,
+      file: filePath.length
+        ? {
+            path: filePath,
+            format: fileFormat,
+            append: fileAppend,
+            mode: parseInt(fileModeStr, 8)
+          }
+        : null,
+      outputSources,
+      outputInclude,
+      maskDerived,
+      maskVars,
+      secretFilesInclude,
+      secretFilesDir,
+      templates: parseTemplates(templatesStr),
+      dryRun,
+      summary,
+      validation: parseValidation(validateStr)
+    }
 
     // Merge and export based on collision strategy
-    mergeAndExport(secretsMap, varsMap, onCollision, override)
+    mergeAndExport(
+      new Map([
+        ['secret', secretsMap],
+        ['var', varsMap],
+        ['file', filesMap],
+        ['vault', vaultMap],
+        ['bundle', bundleMap]
+      ]),
+      exportConfig,
+      sourceCollisions,
+      report
+    )
+
+    if (!dryRun) {
+      writeAuditLog(report, auditFile, auditOutput)
+    }
+
+    if (dryRun) {
+      core.info(`Dry run, nothing was exported:\n${formatReportTable(report)}`)
+      core.summary
+        .addHeading('secrets-to-env dry run', 2)
+        .addTable([
+          REPORT_COLUMNS.map(column => ({data: column, header: true})),
+          ...reportRows(report)
+        ])
+    }
+
+    // Job summaries are missing on some runners (older GHES, act, Gitea),
+    // which must not fail an export that already happened
+    if (dryRun || summary) {
+      try {
+        await core.summary.write()
+      } catch (error: unknown) {
+        core.warning(
+          `Cannot write the job summary: ${error instanceof Error ? error.message : 'unknown error'}`
+        )
+      }
+    }
   } catch (error: unknown) {
     if (error instanceof Error) {
       core.setFailed(error.message)
@@ -315,5 +2920,11 @@ if (
   import.meta.url === `file://${process.argv[1]}` ||
   process.argv[1] === fileURLToPath(import.meta.url)
 ) {
-  void run()
+  // The same entry point is used for the post step, tell them apart by state
+  if (core.getState('isPost') === 'true') {
+    post()
+  } else {
+    core.saveState('isPost', 'true')
+    void run()
+  }
 }
@@ -0,0 +1,147 @@
+import * as core from '@actions/core'
+
+export interface VaultConfig {
+  url: string
+  // KV v2 API paths, e.g. secret/data/app
+  paths: string[]
+  token: string
+  // Role to log in with the GitHub OIDC token (JWT auth) if no token is set
+  role: string
+  authPath: string
+  audience: string
+  // Timeout of every request, in milliseconds
+  timeout: number
+}
+
+interface VaultResponse {
+  data?: {data?: unknown}
+  auth?: {client_token?: string}
+  errors?: string[]
+}
+
+async function request(
+  config: VaultConfig,
+  apiPath: string,
+  token: string | null,
+  body?: Record<string, string>
+): Promise<VaultResponse> {
+  const url = `${config.url.replace(/\/+$/, '')}/v1/${apiPath}`
+  const headers: Record<string, string> = {}
+  if (token !== null) {
+    headers['X-Vault-Token'] = token
+  }
+  if (body) {
+    headers['Content-Type'] = 'application/json'
+  }
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), config.timeout)
+  let status: number
+  let text: string
+  try {
+    const response = await fetch(url, {
+      method: body ? 'POST' : 'GET',
+      headers,
+      body: body && JSON.stringify(body),
+      signal: controller.signal
+    })
+    status = response.status
+    text = await response.text()
+  } catch (error: unknown) {
+    if (controller.signal.aborted) {
+      throw new Error(
+        `Vault request to ${apiPath} timed out after ${config.timeout / 1000}s`
+      )
+    }
+    throw new Error(
+      `Vault request to ${apiPath} failed: ${error instanceof Error ? error.message : 'unknown error'}`
+    )
+  } finally {
+    clearTimeout(timer)
+  }
+
+  if (status === 403) {
+    throw new Error(
+      `Vault denied access to ${apiPath} (403), check the token or role policies`
+    )
+  }
+  if (status === 404) {
+    throw new Error(`Vault path ${apiPath} not found (404)`)
+  }
+
+  let parsed: VaultResponse = {}
+  try {
+    parsed = JSON.parse(text) as VaultResponse
+  } catch {
+    // Reported below, or as a missing field
+  }
+  if (status < 200 || status >= 300) {
+    const errors = parsed.errors?.length ? `: ${parsed.errors.join(', ')}` : ''
+    throw new Error(
+      `Vault request to ${apiPath} failed with status ${status}${errors}`
+    )
+  }
+  return parsed
+}
+
+async function login(config: VaultConfig): Promise<string> {
+  if (config.token.length) {
+    return config.token
+  }
+  if (!config.role.length) {
+    throw new Error('vault_token or vault_role is required to read from Vault')
+  }
+
+  const jwt = await core.getIDToken(config.audience || undefined)
+  const response = await request(
+    config,
+    `auth/${config.authPath}/login`,
+    null,
+    {
+      role: config.role,
+      jwt
+    }
+  )
+  const token = response.auth?.client_token
+  if (!token) {
+    throw new Error(`Vault login with role ${config.role} returned no token`)
+  }
+  core.setSecret(token)
+  core.debug(`Logged in to Vault with role ${config.role}`)
+  return token
+}
+
+// Reads the fields of every path, later paths win. All values are masked
+export async function readVault(
+  config: VaultConfig
+): Promise<Record<string, string>> {
+  const token = await login(config)
+  const variables: Record<string, string> = {}
+  const origins: Record<string, string> = {}
+
+  for (const apiPath of config.paths) {
+    const fields = (await request(config, apiPath, token)).data?.data
+    if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+      throw new Error(`Vault path ${apiPath} is not a KV v2 secret`)
+    }
+
+    for (const [key, field] of Object.entries(fields)) {
+      const value = typeof field === 'string' ? field : JSON.stringify(field)
+      if (value.length) {
+        core.setSecret(value)
+      }
+      if (key in origins) {
+        core.warning(
+          `${key} from Vault path ${apiPath} replaces the one from ${origins[key]}`
+        )
+      }
+      variables[key] = value
+      origins[key] = apiPath
+    }
+    core.debug(
+      `Read ${Object.keys(fields).length} field(s) from Vault path ${apiPath}`
+    )
+  }
+
+  return variables
+}